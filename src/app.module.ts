@@ -6,8 +6,11 @@ import { CoreModule } from './core/core.module';
 import { ServiceAModule } from './services/service-a/service-a.module';
 import { ServiceBModule } from './services/service-b/service-b.module';
 import { ServiceCModule } from './services/service-c/service-c.module';
+import { ProxyModule } from './services/proxy/proxy.module';
 import { LoggingMiddleware } from './core/middleware/logging.middleware';
 import { BodyParserMiddleware } from './core/middleware/body-parser.middleware';
+import { RouteMatchMiddleware } from './core/routing/route-match.middleware';
+import { LoadSheddingMiddleware } from './core/load-shedding/load-shedding.middleware';
 
 @Module({
   imports: [
@@ -18,6 +21,7 @@ import { BodyParserMiddleware } from './core/middleware/body-parser.middleware';
     ServiceAModule,
     ServiceBModule,
     ServiceCModule,
+    ProxyModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -25,7 +29,8 @@ import { BodyParserMiddleware } from './core/middleware/body-parser.middleware';
 export class AppModule implements NestModule {
   configure(consumer: MiddlewareConsumer) {
     consumer
-      .apply(LoggingMiddleware, BodyParserMiddleware)
+      // Load shedding only needs the route match, shed requests never get their body parsed
+      .apply(LoggingMiddleware, RouteMatchMiddleware, LoadSheddingMiddleware, BodyParserMiddleware)
       .forRoutes('*');
   }
 }
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { AbacCondition, AbacContext } from './abac.interface';
+
+export interface BusinessHoursOptions {
+    /** Opening time, HH:mm */
+    start?: string;
+    /** Closing time, HH:mm */
+    end?: string;
+    /** Open days, 0 = Sunday */
+    days?: number[];
+    /** IANA time zone */
+    timeZone?: string;
+}
+
+const DEFAULT_BUSINESS_HOURS: Required<BusinessHoursOptions> = {
+    start: '09:00',
+    end: '18:00',
+    days: [1, 2, 3, 4, 5],
+    timeZone: 'UTC',
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Creates a custom condition
+ */
+export function condition(name: string, evaluate: AbacCondition['evaluate']): AbacCondition {
+    return { name, evaluate };
+}
+
+/**
+ * Holds when the user has any of the roles
+ */
+export function hasRole(...roles: string[]): AbacCondition {
+    return condition(`hasRole(${roles.join(', ')})`, ({ user }) =>
+        roles.some(role => (user.roles || []).includes(role))
+    );
+}
+
+/**
+ * Holds when two attributes of the context are defined and equal,
+ * e.g. attributesMatch('params.tenantId', 'user.tenantId')
+ */
+export function attributesMatch(leftPath: string, rightPath: string): AbacCondition {
+    return condition(`attributesMatch(${leftPath}, ${rightPath})`, context => {
+        const left = readAttribute(context, leftPath);
+        const right = readAttribute(context, rightPath);
+
+        return left !== undefined && left !== null && right !== undefined && right !== null && String(left) === String(right);
+    });
+}
+
+/**
+ * Holds when a field of the loaded resource equals the user's id, e.g. ownerMatches('uploadedBy')
+ */
+export function ownerMatches(ownerField: string, userField: string = 'id'): AbacCondition {
+    return { ...attributesMatch(`resource.${ownerField}`, `user.${userField}`), name: `ownerMatches(${ownerField})` };
+}
+
+/**
+ * Holds during business hours. A `businessHours` claim on the user, set per tenant,
+ * takes precedence over the options.
+ */
+export function businessHours(options: BusinessHoursOptions = {}): AbacCondition {
+    return condition('businessHours', ({ user, now }) => {
+        const hours = { ...DEFAULT_BUSINESS_HOURS, ...options, ...(user.businessHours || {}) };
+
+        const parts = new Intl.DateTimeFormat('en-US', {
+            timeZone: hours.timeZone,
+            weekday: 'short',
+            hour: '2-digit',
+            minute: '2-digit',
+            hourCycle: 'h23',
+        }).formatToParts(now);
+        const part = (type: string) => parts.find(p => p.type === type)?.value;
+
+        const day = WEEKDAYS.indexOf(part('weekday'));
+        const time = `${part('hour')}:${part('minute')}`;
+
+        return hours.days.includes(day) && time >= hours.start && time < hours.end;
+    });
+}
+
+/**
+ * Holds when any of the conditions holds
+ */
+export function anyOf(...conditions: AbacCondition[]): AbacCondition {
+    return condition(`anyOf(${conditions.map(c => c.name).join(', ')})`, async context => {
+        for (const c of conditions) {
+            if (await c.evaluate(context)) {
+                return true;
+            }
+        }
+        return false;
+    });
+}
+
+/**
+ * Holds when all of the conditions hold
+ */
+export function allOf(...conditions: AbacCondition[]): AbacCondition {
+    return condition(`allOf(${conditions.map(c => c.name).join(', ')})`, async context => {
+        for (const c of conditions) {
+            if (!(await c.evaluate(context))) {
+                return false;
+            }
+        }
+        return true;
+    });
+}
+
+function readAttribute(context: AbacContext, path: string): any {
+    return path.split('.').reduce((value, key) => value?.[key], context as any);
+}
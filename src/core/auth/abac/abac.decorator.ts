@@ -0,0 +1,15 @@
+import { SetMetadata } from '@nestjs/common';
+import { AbacCondition, AbacResourceLoaderType } from './abac.interface';
+
+export const ABAC_CONDITIONS_KEY = 'abacConditions';
+export const ABAC_RESOURCE_LOADER_KEY = 'abacResourceLoader';
+
+/**
+ * Conditions that must all hold for the request to be allowed, evaluated after role checks
+ */
+export const Conditions = (...conditions: AbacCondition[]) => SetMetadata(ABAC_CONDITIONS_KEY, conditions);
+
+/**
+ * Provider fetching the targeted resource before the conditions are evaluated
+ */
+export const LoadResource = (loader: AbacResourceLoaderType) => SetMetadata(ABAC_RESOURCE_LOADER_KEY, loader);
@@ -0,0 +1,33 @@
+import { Type } from '@nestjs/common';
+import { Request } from 'express';
+
+/**
+ * Attributes an ABAC condition is evaluated against
+ */
+export interface AbacContext {
+    user: Record<string, any>;
+    params: Record<string, any>;
+    query: Record<string, any>;
+    body: Record<string, any>;
+    /** Upstream resource fetched by the route's resource loader, if any */
+    resource?: Record<string, any>;
+    now: Date;
+}
+
+/**
+ * A named predicate a request must satisfy
+ */
+export interface AbacCondition {
+    name: string;
+    evaluate(context: AbacContext): boolean | Promise<boolean>;
+}
+
+/**
+ * Fetches the resource a request targets so conditions can inspect it.
+ * Implementations are regular providers, resolved from any module.
+ */
+export interface AbacResourceLoader {
+    load(request: Request, context: AbacContext): Promise<Record<string, any> | undefined>;
+}
+
+export type AbacResourceLoaderType = Type<AbacResourceLoader>;
@@ -0,0 +1,3 @@
+export * from './abac.interface';
+export * from './abac.decorator';
+export * from './abac.conditions';
@@ -0,0 +1,81 @@
+import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Param, Post, Query, Req } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiQuery, ApiResponse, ApiSecurity, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { Roles } from '../decorators/auth.decorator';
+import { ForbiddenException } from '../../exceptions';
+import { isPlatformAdmin } from '../platform-admin';
+import { ApiKeyService } from './api-key.service';
+import { ApiKeyRecord, IssuedApiKey } from './api-key.interface';
+import { CreateApiKeyDto, RotateApiKeyDto } from './dto';
+
+/**
+ * Admin endpoints to manage API keys. Tenant admins manage the keys of their own tenant,
+ * platform admins those of every tenant.
+ */
+@ApiTags('Admin - API Keys')
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+@Roles('admin')
+@Controller('admin/api-keys')
+export class ApiKeyController {
+    constructor(private readonly apiKeyService: ApiKeyService) { }
+
+    @Post()
+    @HttpCode(HttpStatus.CREATED)
+    @ApiOperation({ summary: 'Create API key', description: 'Issues a new API key; the plain key is only returned once' })
+    @ApiResponse({ status: 201, description: 'API key created' })
+    async create(@Body() createApiKeyDto: CreateApiKeyDto, @Req() request: Request): Promise<IssuedApiKey> {
+        // Keys never carry more than their issuer holds; `user` is the baseline role
+        const grantableRoles = ['user', ...(request.user.roles || [])];
+        return this.apiKeyService.create(createApiKeyDto, this.tenantScope(request), grantableRoles);
+    }
+
+    @Get()
+    @ApiOperation({ summary: 'List API keys' })
+    @ApiQuery({ name: 'tenantId', required: false, type: String })
+    @ApiResponse({ status: 200, description: 'API keys retrieved successfully' })
+    async list(@Req() request: Request, @Query('tenantId') tenantId?: string): Promise<ApiKeyRecord[]> {
+        return this.apiKeyService.list(this.tenantScope(request) ?? tenantId);
+    }
+
+    @Get(':id')
+    @ApiOperation({ summary: 'Get API key' })
+    @ApiResponse({ status: 200, description: 'API key retrieved successfully' })
+    @ApiResponse({ status: 404, description: 'API key not found' })
+    async get(@Param('id') id: string, @Req() request: Request): Promise<ApiKeyRecord> {
+        return this.apiKeyService.get(id, this.tenantScope(request));
+    }
+
+    @Delete(':id')
+    @ApiOperation({ summary: 'Revoke API key', description: 'Revokes an API key immediately' })
+    @ApiResponse({ status: 200, description: 'API key revoked' })
+    @ApiResponse({ status: 404, description: 'API key not found' })
+    async revoke(@Param('id') id: string, @Req() request: Request): Promise<ApiKeyRecord> {
+        return this.apiKeyService.revoke(id, this.tenantScope(request));
+    }
+
+    @Post(':id/rotate')
+    @HttpCode(HttpStatus.CREATED)
+    @ApiOperation({ summary: 'Rotate API key', description: 'Issues a replacement key; the old key keeps working during the grace period' })
+    @ApiResponse({ status: 201, description: 'API key rotated' })
+    @ApiResponse({ status: 404, description: 'API key not found' })
+    async rotate(@Param('id') id: string, @Body() rotateApiKeyDto: RotateApiKeyDto, @Req() request: Request): Promise<IssuedApiKey> {
+        return this.apiKeyService.rotate(id, rotateApiKeyDto.gracePeriod, this.tenantScope(request));
+    }
+
+    /**
+     * The tenant whose keys the caller manages, or undefined for platform admins
+     * @throws ForbiddenException for a tenant admin without a tenant
+     */
+    private tenantScope(request: Request): string | undefined {
+        if (isPlatformAdmin(request.user)) {
+            return undefined;
+        }
+
+        if (!request.user?.tenantId) {
+            throw new ForbiddenException('api-key', 'manage');
+        }
+
+        return request.user.tenantId;
+    }
+}
@@ -0,0 +1,30 @@
+/**
+ * A managed API key, stored in Redis without its secret
+ */
+export interface ApiKeyRecord {
+    id: string;
+    name: string;
+    /** First characters of the key, to help identify it in listings */
+    prefix: string;
+    tenantId?: string;
+    tenantName?: string;
+    roles: string[];
+    /** Allowed `resource:action` pairs, `resource:*` or `*` */
+    scopes: string[];
+    createdAt: string;
+    expiresAt?: string;
+    lastUsedAt?: string;
+    revokedAt?: string;
+    /** Id of the key that replaced this one, set while the rotation grace period runs */
+    rotatedTo?: string;
+    /** Whether the key comes from STATIC_API_TOKEN rather than the store */
+    bootstrap?: boolean;
+}
+
+/**
+ * A newly issued API key; the plain key is only ever returned once
+ */
+export interface IssuedApiKey {
+    key: string;
+    record: ApiKeyRecord;
+}
@@ -0,0 +1,253 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes } from 'crypto';
+import { RedisService } from '../../redis/redis.service';
+import { ForbiddenException, ResourceNotFoundException, ServiceUnavailableException } from '../../exceptions';
+import { AuthenticationProvider } from '../auth.provider';
+import { PLATFORM_ADMIN_ROLE } from '../platform-admin';
+import { ApiKeyRecord, IssuedApiKey } from './api-key.interface';
+import { CreateApiKeyDto } from './dto';
+
+const KEY_PREFIX = 'api-gateway:api-keys';
+
+// Minimum interval between two lastUsedAt writes of the same key
+const LAST_USED_RESOLUTION_MS = 60000;
+
+/**
+ * Issues, validates, rotates and revokes API keys stored hashed in Redis
+ */
+@Injectable()
+export class ApiKeyService {
+    private readonly logger = new Logger(ApiKeyService.name);
+    private readonly rotationGracePeriod: number;
+
+    constructor(
+        private readonly redisService: RedisService,
+        private readonly configService: ConfigService,
+        private readonly authService: AuthenticationProvider,
+    ) {
+        this.rotationGracePeriod = parseInt(this.configService.get<string>('API_KEY_ROTATION_GRACE') || '86400');
+    }
+
+    /**
+     * Issues a new API key
+     * @param tenantId Tenant the key must belong to, for callers managing a single tenant
+     * @param grantableRoles Roles the caller may put on the key, any when omitted
+     * @returns The plain key, which is not stored and can't be retrieved later, and its record
+     * @throws ForbiddenException when the key would carry a role the caller can't grant
+     */
+    async create(createApiKeyDto: CreateApiKeyDto, tenantId?: string, grantableRoles?: string[]): Promise<IssuedApiKey> {
+        const deniedRole = grantableRoles && (createApiKeyDto.roles || []).find(role => !grantableRoles.includes(role));
+        if (deniedRole) {
+            throw new ForbiddenException(`role ${deniedRole}`, 'grant');
+        }
+
+        if (tenantId !== undefined) {
+            createApiKeyDto = { ...createApiKeyDto, tenantId };
+        }
+
+        const id = randomBytes(6).toString('hex');
+        const key = `gw_${id}_${randomBytes(24).toString('base64url')}`;
+
+        const record: ApiKeyRecord = {
+            id,
+            name: createApiKeyDto.name,
+            prefix: key.slice(0, 12),
+            tenantId: createApiKeyDto.tenantId,
+            tenantName: createApiKeyDto.tenantName,
+            roles: createApiKeyDto.roles || ['user'],
+            scopes: createApiKeyDto.scopes || ['*'],
+            createdAt: new Date().toISOString(),
+            expiresAt: createApiKeyDto.expiresAt ? new Date(createApiKeyDto.expiresAt).toISOString() : undefined,
+        };
+
+        await this.saveRecord(record);
+        await this.redisService.setValue(this.hashKey(key), id);
+        await this.redisService.addToSet(`${KEY_PREFIX}:ids`, id);
+
+        this.logger.log(`API key ${id} (${record.name}) created for tenant ${record.tenantId || 'none'}`);
+        return { key, record };
+    }
+
+    /**
+     * Lists API key records, optionally of a single tenant
+     */
+    async list(tenantId?: string): Promise<ApiKeyRecord[]> {
+        const ids = await this.redisService.getSetMembers(`${KEY_PREFIX}:ids`);
+        const records = await Promise.all(ids.map(id => this.findRecord(id)));
+
+        return records
+            .filter((record): record is ApiKeyRecord => Boolean(record))
+            .filter(record => !tenantId || record.tenantId === tenantId)
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    /**
+     * Gets an API key record
+     * @param tenantId Tenant the key must belong to, for callers managing a single tenant
+     * @throws ResourceNotFoundException if the key doesn't exist, or belongs to another tenant
+     */
+    async get(id: string, tenantId?: string): Promise<ApiKeyRecord> {
+        const record = await this.findRecord(id);
+
+        if (!record || (tenantId !== undefined && record.tenantId !== tenantId)) {
+            throw new ResourceNotFoundException('api-key', id);
+        }
+
+        return record;
+    }
+
+    /**
+     * Revokes an API key immediately
+     */
+    async revoke(id: string, tenantId?: string): Promise<ApiKeyRecord> {
+        const record = await this.get(id, tenantId);
+
+        record.revokedAt = new Date().toISOString();
+        await this.saveRecord(record);
+
+        this.logger.log(`API key ${id} revoked`);
+        return record;
+    }
+
+    /**
+     * Replaces an API key with a new one carrying the same attributes;
+     * the old key keeps working until the grace period ends
+     * @param id The key to rotate
+     * @param gracePeriod Seconds the old key stays valid, defaults to API_KEY_ROTATION_GRACE
+     * @param tenantId Tenant the key must belong to, for callers managing a single tenant
+     */
+    async rotate(id: string, gracePeriod: number = this.rotationGracePeriod, tenantId?: string): Promise<IssuedApiKey> {
+        const record = await this.get(id, tenantId);
+
+        if (record.revokedAt) {
+            throw new ResourceNotFoundException('api-key', id);
+        }
+
+        const issued = await this.create({
+            name: record.name,
+            tenantId: record.tenantId,
+            tenantName: record.tenantName,
+            roles: record.roles,
+            scopes: record.scopes,
+            expiresAt: record.expiresAt,
+        });
+
+        const graceEnd = Date.now() + gracePeriod * 1000;
+        if (!record.expiresAt || Date.parse(record.expiresAt) > graceEnd) {
+            record.expiresAt = new Date(graceEnd).toISOString();
+        }
+        record.rotatedTo = issued.record.id;
+        await this.saveRecord(record);
+
+        this.logger.log(`API key ${id} rotated to ${issued.record.id}, old key valid until ${record.expiresAt}`);
+        return issued;
+    }
+
+    /**
+     * Resolves the record of a presented API key
+     * @param apiKey The plain API key
+     * @returns The record, or null if the key is unknown, revoked or expired
+     * @throws ServiceUnavailableException when managed keys can't be looked up
+     */
+    async validate(apiKey: string): Promise<ApiKeyRecord | null> {
+        // Keys from STATIC_API_TOKEN act as bootstrap admin keys
+        if (this.authService.validateApiKey(apiKey)) {
+            return {
+                id: `static-${createHash('sha256').update(apiKey).digest('hex').slice(0, 8)}`,
+                name: 'bootstrap',
+                prefix: apiKey.slice(0, 4),
+                roles: ['admin', PLATFORM_ADMIN_ROLE],
+                scopes: ['*'],
+                createdAt: new Date(0).toISOString(),
+                bootstrap: true,
+            };
+        }
+
+        // Commands are queued rather than rejected while disconnected, don't wait for them
+        if (!this.redisService.isReady()) {
+            throw new ServiceUnavailableException('Authentication');
+        }
+
+        let record: ApiKeyRecord | null;
+        try {
+            const id = await this.redisService.getValue(this.hashKey(apiKey));
+            record = id ? await this.findRecord(id) : null;
+        } catch (error) {
+            this.logger.error(`Error looking up API key: ${error.message}`);
+            throw new ServiceUnavailableException('Authentication');
+        }
+
+        if (!record) {
+            return null;
+        }
+
+        if (record.revokedAt) {
+            this.logger.debug(`API key ${record.id} has been revoked`);
+            return null;
+        }
+
+        if (record.expiresAt && Date.parse(record.expiresAt) <= Date.now()) {
+            this.logger.debug(`API key ${record.id} expired at ${record.expiresAt}`);
+            return null;
+        }
+
+        // Bookkeeping only, it must not delay or fail the request
+        this.touch(record).catch(error => this.logger.error(`Error recording use of API key ${record.id}: ${error.message}`));
+        return record;
+    }
+
+    /**
+     * Whether a key's scopes allow an action on a resource
+     */
+    hasScope(record: ApiKeyRecord, resource: string, action: string): boolean {
+        return record.scopes.some(scope =>
+            scope === '*' || scope === `${resource}:*` || scope === `${resource}:${action}`
+        );
+    }
+
+    /**
+     * Records the last use of a key, at most once per LAST_USED_RESOLUTION_MS.
+     * Stored apart from the record, so it can't overwrite a concurrent revocation or rotation.
+     */
+    private async touch(record: ApiKeyRecord): Promise<void> {
+        const now = Date.now();
+
+        if (record.lastUsedAt && now - Date.parse(record.lastUsedAt) < LAST_USED_RESOLUTION_MS) {
+            return;
+        }
+
+        record.lastUsedAt = new Date(now).toISOString();
+        await this.redisService.setValue(this.lastUsedKey(record.id), record.lastUsedAt);
+    }
+
+    private async findRecord(id: string): Promise<ApiKeyRecord | null> {
+        const [value, lastUsedAt] = await Promise.all([
+            this.redisService.getValue(`${KEY_PREFIX}:record:${id}`),
+            this.redisService.getValue(this.lastUsedKey(id)),
+        ]);
+
+        if (!value) {
+            return null;
+        }
+
+        const record: ApiKeyRecord = JSON.parse(value);
+        return lastUsedAt ? { ...record, lastUsedAt } : record;
+    }
+
+    private async saveRecord(record: ApiKeyRecord): Promise<void> {
+        // lastUsedAt lives in its own key, see touch()
+        await this.redisService.setValue(
+            `${KEY_PREFIX}:record:${record.id}`,
+            JSON.stringify({ ...record, lastUsedAt: undefined })
+        );
+    }
+
+    private lastUsedKey(id: string): string {
+        return `${KEY_PREFIX}:last-used:${id}`;
+    }
+
+    private hashKey(apiKey: string): string {
+        return `${KEY_PREFIX}:hash:${createHash('sha256').update(apiKey).digest('hex')}`;
+    }
+}
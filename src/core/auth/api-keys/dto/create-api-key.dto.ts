@@ -0,0 +1,36 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsString, IsNotEmpty, IsOptional, IsArray, IsDateString } from 'class-validator';
+
+export class CreateApiKeyDto {
+    @ApiProperty({ description: 'Human readable name of the key' })
+    @IsString()
+    @IsNotEmpty()
+    name: string;
+
+    @ApiPropertyOptional({ description: 'Tenant owning the key' })
+    @IsString()
+    @IsOptional()
+    tenantId?: string;
+
+    @ApiPropertyOptional({ description: 'Name of the tenant owning the key' })
+    @IsString()
+    @IsOptional()
+    tenantName?: string;
+
+    @ApiPropertyOptional({ description: 'Roles granted to the key', default: ['user'] })
+    @IsArray()
+    @IsString({ each: true })
+    @IsOptional()
+    roles?: string[];
+
+    @ApiPropertyOptional({ description: 'Allowed scopes: `resource:action`, `resource:*` or `*`', default: ['*'] })
+    @IsArray()
+    @IsString({ each: true })
+    @IsOptional()
+    scopes?: string[];
+
+    @ApiPropertyOptional({ description: 'Expiry date (ISO 8601)' })
+    @IsDateString()
+    @IsOptional()
+    expiresAt?: string;
+}
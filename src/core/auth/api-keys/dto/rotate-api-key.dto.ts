@@ -0,0 +1,10 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, Min } from 'class-validator';
+
+export class RotateApiKeyDto {
+    @ApiPropertyOptional({ description: 'Seconds the old key keeps working after the rotation' })
+    @IsInt()
+    @Min(0)
+    @IsOptional()
+    gracePeriod?: number;
+}
@@ -0,0 +1,3 @@
+export * from './api-key.interface';
+export * from './api-key.service';
+export * from './api-key.controller';
@@ -0,0 +1,45 @@
+import { Body, Controller, HttpCode, HttpStatus, Post, Req, UnauthorizedException } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { Roles } from './decorators/auth.decorator';
+import { RevokeTokenDto } from './dto/revoke-token.dto';
+import { TokenCacheService } from './token-cache.service';
+
+/**
+ * Controller for token revocation
+ */
+@ApiTags('Auth')
+@ApiBearerAuth()
+@Controller('auth')
+export class AuthController {
+    constructor(private readonly tokenCacheService: TokenCacheService) { }
+
+    /**
+     * Revoke the caller's own token
+     */
+    @Post('logout')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Logout', description: 'Revokes the bearer token of the request on all gateway instances' })
+    @ApiResponse({ status: 204, description: 'Token revoked' })
+    async logout(@Req() request: Request): Promise<void> {
+        const authHeader = request.headers.authorization;
+
+        if (!authHeader) {
+            throw new UnauthorizedException('Missing authorization token');
+        }
+
+        await this.tokenCacheService.revoke(authHeader);
+    }
+
+    /**
+     * Revoke any token (admin only)
+     */
+    @Post('revoke')
+    @Roles('admin')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    @ApiOperation({ summary: 'Revoke token', description: 'Revokes a token on all gateway instances until it expires' })
+    @ApiResponse({ status: 204, description: 'Token revoked' })
+    async revoke(@Body() revokeTokenDto: RevokeTokenDto): Promise<void> {
+        await this.tokenCacheService.revoke(revokeTokenDto.token);
+    }
+}
@@ -1,22 +1,40 @@
 import { Module } from '@nestjs/common';
 import { HttpModule } from '@nestjs/axios';
 import { AuthenticationProvider } from './auth.provider';
+import { JwtVerifierService } from './jwt-verifier.service';
+import { TokenCacheService } from './token-cache.service';
+import { AuthController } from './auth.controller';
+import { ApiKeyService, ApiKeyController } from './api-keys';
+import { PolicyService, PolicyController } from './policy';
+import { RedisModule } from '../redis/redis.module';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { RolesGuard } from './guards/roles.guard';
 import { ApiKeyAuthGuard } from './guards/api-key-auth.guard';
+import { AbacGuard } from './guards/abac.guard';
 
 @Module({
-  imports: [HttpModule],
+  imports: [HttpModule, RedisModule],
+  controllers: [AuthController, ApiKeyController, PolicyController],
   providers: [
     AuthenticationProvider,
+    JwtVerifierService,
+    TokenCacheService,
+    ApiKeyService,
+    PolicyService,
     JwtAuthGuard,
     RolesGuard,
+    AbacGuard,
     ApiKeyAuthGuard
   ],
   exports: [
     AuthenticationProvider,
+    JwtVerifierService,
+    TokenCacheService,
+    ApiKeyService,
+    PolicyService,
     JwtAuthGuard,
     RolesGuard,
+    AbacGuard,
     ApiKeyAuthGuard
   ],
 })
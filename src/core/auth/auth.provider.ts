@@ -2,6 +2,8 @@ import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { HttpService } from '@nestjs/axios';
 import { firstValueFrom } from 'rxjs';
+import { JwtPayload, JwtVerifierService } from './jwt-verifier.service';
+import { PolicyService } from './policy/policy.service';
 
 @Injectable()
 export class AuthenticationProvider {
@@ -12,6 +14,8 @@ export class AuthenticationProvider {
     constructor(
         private readonly configService: ConfigService,
         private readonly httpService: HttpService,
+        private readonly jwtVerifier: JwtVerifierService,
+        private readonly policyService: PolicyService,
     ) {
         this.authUrl = this.configService.get<string>('AUTH_SERVICE_URL') || 'http://localhost:8005';
         this.logger.debug(`AUTH_SERVICE_URL is set to: ${this.authUrl}`);
@@ -32,12 +36,47 @@ export class AuthenticationProvider {
     }
 
     /**
-     * Validates a JWT token against the authentication service
+     * Validates a JWT token, locally when signing keys are configured and
+     * against the authentication service for opaque tokens
      * @param token The JWT token to validate
      * @returns User data if token is valid
      * @throws UnauthorizedException if token is invalid
      */
     async validateToken(token: string): Promise<any> {
+        const rawToken = token.replace(/^Bearer\s+/i, '');
+
+        if (this.jwtVerifier.isEnabled() && this.jwtVerifier.isJwt(rawToken)) {
+            return this.validateTokenLocally(rawToken);
+        }
+
+        return this.validateTokenRemotely(token);
+    }
+
+    /**
+     * Verifies a JWT signature and claims without calling the authentication service
+     */
+    private async validateTokenLocally(token: string): Promise<any> {
+        let payload: JwtPayload;
+        try {
+            this.logger.debug('Validating token locally');
+            payload = await this.jwtVerifier.verify(token);
+        } catch (error) {
+            this.logger.error(`Local token validation failed: ${error.message}`);
+            throw new UnauthorizedException('Invalid token');
+        }
+
+        // Map the claims to the shape returned by the auth service /validate endpoint
+        return {
+            ...payload,
+            userId: payload.userId || payload.sub,
+            roles: payload.roles || [],
+        };
+    }
+
+    /**
+     * Validates a token against the authentication service
+     */
+    private async validateTokenRemotely(token: string): Promise<any> {
         try {
             this.logger.debug('Validating token with auth service');
             const response = await firstValueFrom(
@@ -76,10 +115,10 @@ export class AuthenticationProvider {
     /**
      * Validates if a user has permission to perform an action on a resource
      * @param userId The ID of the user
-     * @param resource The resource being accessed (e.g., 'user', 'product')
+     * @param resource The resource being accessed (e.g., 'item', 'file')
      * @param action The action being performed (e.g., 'create', 'read', 'update', 'delete')
      * @param userRoles Array of roles assigned to the user
-     * @param tenantName The tenant name for the request
+     * @param tenantId The verified tenant id of the user, selects tenant-specific policy overrides
      * @returns Boolean indicating if the user has permission
      */
     async validatePermissions(
@@ -87,63 +126,15 @@ export class AuthenticationProvider {
         resource: string, 
         action: string, 
         userRoles: string[] = [], 
-        tenantName?: string
+        tenantId?: string
     ): Promise<boolean> {
         try {
             this.logger.debug(`Validating permissions for user ${userId}, resource: ${resource}, action: ${action}, roles: ${userRoles}`);
 
-            // If user has admin role, grant all permissions
-            if (userRoles.includes('admin')) {
-                return true;
-            }
-
-            // Define permission mapping for resources and actions
-            const permissionMap = {
-                'user': {
-                    'create': ['admin'],
-                    'read': ['user', 'admin'],
-                    'update': ['admin'],
-                    'delete': ['admin']
-                },
-                'product': {
-                    'create': ['admin'],
-                    'read': ['user', 'admin'],
-                    'update': ['admin'],
-                    'delete': ['admin']
-                },
-                'order': {
-                    'create': ['user', 'admin'],
-                    'read': ['user', 'admin'],
-                    'update': ['admin'],
-                    'delete': ['admin']
-                },
-                'report': {
-                    'create': ['admin'],
-                    'read': ['user', 'admin'],
-                    'update': ['admin'],
-                    'delete': ['admin']
-                }
-            };
-
-            // Check if the resource exists in our permission map
-            if (!permissionMap[resource]) {
-                this.logger.warn(`Resource "${resource}" not found in permission map`);
-                return false;
-            }
-
-            // Check if the action exists for this resource
-            if (!permissionMap[resource][action]) {
-                this.logger.warn(`Action "${action}" not found for resource "${resource}"`);
-                return false;
-            }
-
-            // Check if any of the user's roles have permission for this resource/action
-            const hasPermission = userRoles.some(role =>
-                permissionMap[resource][action].includes(role)
-            );
+            const decision = this.policyService.evaluate(userRoles, resource, action, tenantId);
 
-            this.logger.debug(`Permission check result: ${hasPermission ? 'Granted' : 'Denied'}`);
-            return hasPermission;
+            this.logger.debug(`Permission check result: ${decision.allowed ? 'Granted' : 'Denied'} - ${decision.reason}`);
+            return decision.allowed;
         } catch (error) {
             this.logger.error(`Permission validation failed: ${error.message}`);
             return false;
@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsNotEmpty } from 'class-validator';
+
+export class RevokeTokenDto {
+    @ApiProperty({ description: 'Token to revoke, with or without the Bearer prefix' })
+    @IsString()
+    @IsNotEmpty()
+    token: string;
+}
@@ -0,0 +1,56 @@
+import { Injectable, CanActivate, ExecutionContext, Logger } from '@nestjs/common';
+import { ModuleRef, Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { ACTION_KEY, RESOURCE_KEY } from '../decorators/auth.decorator';
+import { ABAC_CONDITIONS_KEY, ABAC_RESOURCE_LOADER_KEY } from '../abac/abac.decorator';
+import { AbacCondition, AbacContext, AbacResourceLoaderType } from '../abac/abac.interface';
+import { resolveRouteMetadata } from '../../routing/route-metadata.util';
+import { ForbiddenException } from '../../exceptions';
+
+@Injectable()
+export class AbacGuard implements CanActivate {
+    private readonly logger = new Logger(AbacGuard.name);
+
+    constructor(
+        private readonly reflector: Reflector,
+        private readonly moduleRef: ModuleRef,
+    ) { }
+
+    async canActivate(context: ExecutionContext): Promise<boolean> {
+        const isPublic = resolveRouteMetadata<boolean>(this.reflector, IS_PUBLIC_KEY, context);
+        const conditions = resolveRouteMetadata<AbacCondition[]>(this.reflector, ABAC_CONDITIONS_KEY, context);
+
+        if (isPublic || !conditions || conditions.length === 0) {
+            return true;
+        }
+
+        const request = context.switchToHttp().getRequest<Request>();
+        const resource = resolveRouteMetadata<string>(this.reflector, RESOURCE_KEY, context) || 'resource';
+        const action = resolveRouteMetadata<string>(this.reflector, ACTION_KEY, context) || 'access';
+
+        const abacContext: AbacContext = {
+            user: request.user || {},
+            params: request.params || {},
+            query: request.query || {},
+            body: request.body || {},
+            now: new Date(),
+        };
+
+        // Fetch the targeted resource if the route declares a loader
+        const loaderType = resolveRouteMetadata<AbacResourceLoaderType>(this.reflector, ABAC_RESOURCE_LOADER_KEY, context);
+        if (loaderType) {
+            const loader = this.moduleRef.get(loaderType, { strict: false });
+            abacContext.resource = await loader.load(request, abacContext);
+        }
+
+        for (const condition of conditions) {
+            if (!(await condition.evaluate(abacContext))) {
+                this.logger.debug(`Condition ${condition.name} denied ${action} on ${resource} for user ${abacContext.user.id}`);
+                throw new ForbiddenException(resource, action);
+            }
+        }
+
+        return true;
+    }
+}
@@ -1,9 +1,13 @@
 import { Injectable, ExecutionContext, UnauthorizedException, Logger, CanActivate } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { AuthenticationProvider } from '../auth.provider';
+import { ApiKeyService } from '../api-keys/api-key.service';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { resolveRouteMetadata } from '../../routing/route-metadata.util';
 import { Request } from 'express';
 import { RESOURCE_KEY, ACTION_KEY } from '../decorators/auth.decorator';
+import { ForbiddenException } from '../../exceptions';
+import { PLATFORM_ADMIN_ROLE } from '../platform-admin';
 
 @Injectable()
 export class ApiKeyAuthGuard implements CanActivate {
@@ -11,15 +15,13 @@ export class ApiKeyAuthGuard implements CanActivate {
 
     constructor(
         private readonly authService: AuthenticationProvider,
+        private readonly apiKeyService: ApiKeyService,
         private readonly reflector: Reflector
     ) { }
 
     async canActivate(context: ExecutionContext): Promise<boolean> {
         // Check if the endpoint is marked as public
-        const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
-            context.getHandler(),
-            context.getClass(),
-        ]);
+        const isPublic = resolveRouteMetadata<boolean>(this.reflector, IS_PUBLIC_KEY, context);
 
         if (isPublic) {
             return true;
@@ -70,14 +72,31 @@ export class ApiKeyAuthGuard implements CanActivate {
         }
 
         // Validate the API key
-        const isValidApiKey = this.authService.validateApiKey(apiKey);
-        if (!isValidApiKey) {
-            this.logger.debug(`Invalid API key provided: ${apiKey}`);
+        const keyRecord = await this.apiKeyService.validate(apiKey);
+        if (!keyRecord) {
+            this.logger.debug(`Invalid API key provided: ${apiKey.slice(0, 12)}...`);
             throw new UnauthorizedException('Invalid API key');
         }
 
+        // Only bootstrap keys may act on behalf of a forwarded user
+        const trustsForwardedUser = keyRecord.bootstrap === true;
+
         // Check the type of request
-        if (sourceService === 'service-b') {
+        if (!trustsForwardedUser) {
+            // Managed API key, the identity comes from the key record
+            request.user = {
+                id: `api-key:${keyRecord.id}`,
+                apiKeyId: keyRecord.id,
+                tenantName: keyRecord.tenantName || keyRecord.tenantId,
+                tenantId: keyRecord.tenantId,
+                roles: keyRecord.roles,
+                scopes: keyRecord.scopes,
+                requestId: requestId,
+                sourceService: sourceService ? sourceService : 'api-key',
+            };
+
+            this.logger.debug(`Managed API key ${keyRecord.id} validated for tenant: ${keyRecord.tenantId || 'none'}`);
+        } else if (sourceService === 'service-b') {
             // This is a request from Service B
             this.logger.debug(`Service-to-service call from Service B`);
 
@@ -133,7 +152,7 @@ export class ApiKeyAuthGuard implements CanActivate {
                 id: requestId,
                 tenantName: tenantNameFromRequest || 'direct-api-access',
                 tenantId: tenantNameFromRequest || 'direct-api-access',
-                roles: ['admin'],  // Give direct API keys admin privileges by default
+                roles: ['admin', PLATFORM_ADMIN_ROLE],  // Bootstrap keys keep admin privileges, across tenants
                 requestId: requestId,
                 sourceService: sourceService ? sourceService : 'direct-api-access',
             };
@@ -144,15 +163,20 @@ export class ApiKeyAuthGuard implements CanActivate {
         this.logger.debug(`API key validated successfully`);
 
         // Extra validation to match the RolesGuard behavior
-        const resource = this.reflector.get<string>(RESOURCE_KEY, context.getHandler());
-        const action = this.reflector.get<string>(ACTION_KEY, context.getHandler());
+        const resource = resolveRouteMetadata<string>(this.reflector, RESOURCE_KEY, context);
+        const action = resolveRouteMetadata<string>(this.reflector, ACTION_KEY, context);
         if (resource && action) {
+            if (!this.apiKeyService.hasScope(keyRecord, resource, action)) {
+                this.logger.debug(`API key ${keyRecord.id} is not scoped for ${resource}:${action}`);
+                throw new ForbiddenException(resource, action);
+            }
+
             const hasPermission = await this.authService.validatePermissions(
                 request.user.id,
                 resource,
                 action,
                 request.user.roles,
-                request.user.tenantName
+                request.user.tenantId
             );
             if (!hasPermission) {
                 this.logger.debug(`Permission denied for ${resource}/${action} with API key auth`);
@@ -1,7 +1,9 @@
 import { Injectable, ExecutionContext, UnauthorizedException, Logger, CanActivate } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { AuthenticationProvider } from '../auth.provider';
+import { TokenCacheService } from '../token-cache.service';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { resolveRouteMetadata } from '../../routing/route-metadata.util';
 
 @Injectable()
 export class JwtAuthGuard implements CanActivate {
@@ -9,15 +11,13 @@ export class JwtAuthGuard implements CanActivate {
 
     constructor(
         private readonly authService: AuthenticationProvider,
+        private readonly tokenCacheService: TokenCacheService,
         private readonly reflector: Reflector
     ) { }
 
     async canActivate(context: ExecutionContext): Promise<boolean> {
         // Check if the endpoint is marked as public
-        const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
-            context.getHandler(),
-            context.getClass(),
-        ]);
+        const isPublic = resolveRouteMetadata<boolean>(this.reflector, IS_PUBLIC_KEY, context);
 
         if (isPublic) {
             return true;
@@ -50,9 +50,21 @@ export class JwtAuthGuard implements CanActivate {
             throw new UnauthorizedException('Missing tenant ID header');
         }
 
+        if (await this.tokenCacheService.isRevoked(authHeader)) {
+            this.logger.debug('Token has been revoked');
+            throw new UnauthorizedException('Token has been revoked');
+        }
+
         try {
-            const userData = await this.authService.validateToken(authHeader);
-            this.logger.debug('Token validated successfully');
+            let userData = await this.tokenCacheService.get(authHeader);
+
+            if (userData) {
+                this.logger.debug('Token validation served from cache');
+            } else {
+                userData = await this.authService.validateToken(authHeader);
+                await this.tokenCacheService.set(authHeader, userData);
+                this.logger.debug('Token validated successfully');
+            }
 
             // Check if user has access to specified tenant
             if (!userData.userAccess || !Array.isArray(userData.userAccess)) {
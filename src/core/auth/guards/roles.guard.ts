@@ -2,6 +2,8 @@ import { Injectable, CanActivate, ExecutionContext, ForbiddenException, Logger }
 import { Reflector } from '@nestjs/core';
 import { AuthenticationProvider } from '../auth.provider';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { resolveRouteMetadata } from '../../routing/route-metadata.util';
+import { ACTION_KEY, RESOURCE_KEY, ROLES_KEY } from '../decorators/auth.decorator';
 
 @Injectable()
 export class RolesGuard implements CanActivate {
@@ -14,16 +16,13 @@ export class RolesGuard implements CanActivate {
 
     async canActivate(context: ExecutionContext): Promise<boolean> {
         // Check if the endpoint is marked as public
-        const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
-            context.getHandler(),
-            context.getClass(),
-        ]);
+        const isPublic = resolveRouteMetadata<boolean>(this.reflector, IS_PUBLIC_KEY, context);
 
         if (isPublic) {
             return true;
         }
 
-        const requiredRoles = this.reflector.get<string[]>('roles', context.getHandler());
+        const requiredRoles = resolveRouteMetadata<string[]>(this.reflector, ROLES_KEY, context);
         this.logger.debug(`Required roles: ${JSON.stringify(requiredRoles)}`);
 
         if (!requiredRoles || requiredRoles.length === 0) {
@@ -59,8 +58,8 @@ export class RolesGuard implements CanActivate {
         }
 
         // If no direct role match, check resource-based permissions
-        const resource = this.reflector.get<string>('resource', context.getHandler());
-        const action = this.reflector.get<string>('action', context.getHandler());
+        const resource = resolveRouteMetadata<string>(this.reflector, RESOURCE_KEY, context);
+        const action = resolveRouteMetadata<string>(this.reflector, ACTION_KEY, context);
         this.logger.debug(`Resource: ${resource}, Action: ${action}`);
 
         if (!resource || !action) {
@@ -74,7 +73,7 @@ export class RolesGuard implements CanActivate {
             resource,
             action,
             user.roles,
-            user.tenantName
+            user.tenantId
         );
 
         this.logger.debug(`Has permission: ${hasPermission}`);
@@ -0,0 +1,319 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import { createHmac, createPublicKey, createSecretKey, KeyObject, timingSafeEqual, verify } from 'crypto';
+import { AuthenticationException } from '../exceptions';
+
+export type JwtAlgorithm = 'RS256' | 'ES256' | 'HS256';
+
+export interface JwtPayload {
+    sub?: string;
+    iss?: string;
+    aud?: string | string[];
+    exp?: number;
+    nbf?: number;
+    iat?: number;
+    [claim: string]: any;
+}
+
+interface JwtHeader {
+    alg: string;
+    kid?: string;
+    typ?: string;
+}
+
+const SUPPORTED_ALGORITHMS: JwtAlgorithm[] = ['RS256', 'ES256', 'HS256'];
+
+// Key type each algorithm must be verified with, to prevent algorithm confusion
+const KEY_TYPES: Record<JwtAlgorithm, string> = {
+    RS256: 'rsa',
+    ES256: 'ec',
+    HS256: 'secret',
+};
+
+// Delay before refetching the JWKS after a failed fetch, doubling per failure up to the max
+const JWKS_RETRY_MIN_MS = 1000;
+const JWKS_RETRY_MAX_MS = 60000;
+
+/**
+ * Verifies JWT signatures and claims locally, against a JWKS document or configured keys
+ */
+@Injectable()
+export class JwtVerifierService {
+    private readonly logger = new Logger(JwtVerifierService.name);
+    private readonly jwksUri?: string;
+    private readonly secretKey?: KeyObject;
+    private readonly publicKey?: KeyObject;
+    private readonly issuers: string[];
+    private readonly audiences: string[];
+    private readonly algorithms: JwtAlgorithm[];
+    // Allowed clock skew for exp/nbf (seconds)
+    readonly clockTolerance: number;
+    private readonly jwksCacheTtl: number;
+
+    private jwks: Map<string, KeyObject> = new Map();
+    private jwksFetchedAt = 0;
+    private jwksFailedAt = 0;
+    private jwksFailures = 0;
+    private jwksRequest: Promise<void> | null = null;
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly httpService: HttpService,
+    ) {
+        this.jwksUri = this.configService.get<string>('JWT_JWKS_URI');
+
+        const secret = this.configService.get<string>('JWT_SECRET');
+        if (secret) {
+            this.secretKey = createSecretKey(Buffer.from(secret, 'utf8'));
+        }
+
+        const publicKey = this.configService.get<string>('JWT_PUBLIC_KEY');
+        if (publicKey) {
+            this.publicKey = createPublicKey(publicKey.replace(/\\n/g, '\n'));
+        }
+
+        this.issuers = this.parseList(this.configService.get<string>('JWT_ISSUER'));
+        this.audiences = this.parseList(this.configService.get<string>('JWT_AUDIENCE'));
+        this.algorithms = this.parseList(this.configService.get<string>('JWT_ALGORITHMS') || SUPPORTED_ALGORITHMS.join(','))
+            .filter((alg): alg is JwtAlgorithm => SUPPORTED_ALGORITHMS.includes(alg as JwtAlgorithm));
+        this.clockTolerance = parseInt(this.configService.get<string>('JWT_CLOCK_TOLERANCE') || '30');
+        this.jwksCacheTtl = parseInt(this.configService.get<string>('JWKS_CACHE_TTL') || '600');
+
+        if (this.isEnabled()) {
+            this.logger.log(`Local JWT verification enabled for algorithms: ${this.algorithms.join(', ')}`);
+        }
+    }
+
+    /**
+     * Whether any key source is configured for local verification
+     */
+    isEnabled(): boolean {
+        return Boolean(this.jwksUri || this.secretKey || this.publicKey);
+    }
+
+    /**
+     * Whether a token is structurally a JWT, as opposed to an opaque token
+     */
+    isJwt(token: string): boolean {
+        const parts = token.split('.');
+        if (parts.length !== 3) {
+            return false;
+        }
+
+        try {
+            return typeof this.decodeSegment<JwtHeader>(parts[0]).alg === 'string';
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Decodes the payload of a JWT without verifying it
+     * @returns The payload, or null if the token is not a JWT
+     */
+    decode(token: string): JwtPayload | null {
+        if (!this.isJwt(token)) {
+            return null;
+        }
+
+        try {
+            return this.decodeSegment<JwtPayload>(token.split('.')[1]);
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Verifies the signature and the registered claims of a JWT
+     * @param token The raw JWT, without the Bearer prefix
+     * @returns The verified payload
+     * @throws AuthenticationException if the token is invalid
+     */
+    async verify(token: string): Promise<JwtPayload> {
+        const [encodedHeader, encodedPayload, encodedSignature] = token.split('.');
+
+        let header: JwtHeader;
+        let payload: JwtPayload;
+        try {
+            header = this.decodeSegment<JwtHeader>(encodedHeader);
+            payload = this.decodeSegment<JwtPayload>(encodedPayload);
+        } catch {
+            throw new AuthenticationException('Malformed token.');
+        }
+
+        const algorithm = header.alg as JwtAlgorithm;
+        if (!this.algorithms.includes(algorithm)) {
+            throw new AuthenticationException(`Unsupported token algorithm: ${header.alg}`);
+        }
+
+        const key = await this.resolveKey(algorithm, header.kid);
+        const signingInput = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+        const signature = Buffer.from(encodedSignature, 'base64url');
+
+        if (!this.verifySignature(algorithm, key, signingInput, signature)) {
+            throw new AuthenticationException('Invalid token signature.');
+        }
+
+        this.validateClaims(payload);
+        return payload;
+    }
+
+    /**
+     * Finds the key to verify a token with, refreshing the JWKS when the kid is unknown
+     */
+    private async resolveKey(algorithm: JwtAlgorithm, kid?: string): Promise<KeyObject> {
+        if (algorithm === 'HS256') {
+            if (!this.secretKey) {
+                throw new AuthenticationException('No secret configured for HS256 tokens.');
+            }
+            return this.secretKey;
+        }
+
+        if (this.jwksUri) {
+            await this.loadJwks(false);
+
+            let key = this.findJwk(algorithm, kid);
+            if (!key && kid) {
+                // Unknown kid, the signing keys may have been rotated
+                await this.loadJwks(true);
+                key = this.findJwk(algorithm, kid);
+            }
+
+            if (key) {
+                return key;
+            }
+        }
+
+        if (this.publicKey && this.publicKey.asymmetricKeyType === KEY_TYPES[algorithm]) {
+            return this.publicKey;
+        }
+
+        throw new AuthenticationException(`No key found to verify the token${kid ? ` (kid: ${kid})` : ''}.`);
+    }
+
+    private findJwk(algorithm: JwtAlgorithm, kid?: string): KeyObject | undefined {
+        if (kid) {
+            const key = this.jwks.get(kid);
+            return key?.asymmetricKeyType === KEY_TYPES[algorithm] ? key : undefined;
+        }
+
+        // Without a kid, only an unambiguous key of the right type can be used
+        const candidates = [...this.jwks.values()].filter(key => key.asymmetricKeyType === KEY_TYPES[algorithm]);
+        return candidates.length === 1 ? candidates[0] : undefined;
+    }
+
+    /**
+     * Fetches the JWKS document when the cache expired, or on demand after a key rotation
+     */
+    private async loadJwks(force: boolean): Promise<void> {
+        const now = Date.now();
+        const age = now - this.jwksFetchedAt;
+
+        // Refresh on unknown kid at most every 30 seconds so invalid tokens can't hammer the JWKS endpoint
+        if ((!force && age < this.jwksCacheTtl * 1000) || (force && age < 30000)) {
+            return;
+        }
+
+        // Back off after failed fetches, so a JWKS outage doesn't stall every verification
+        if (this.jwksFailures > 0 && now - this.jwksFailedAt < this.jwksRetryDelay()) {
+            return;
+        }
+
+        if (!this.jwksRequest) {
+            this.jwksRequest = this.fetchJwks().finally(() => {
+                this.jwksRequest = null;
+            });
+        }
+
+        // Expired keys remain usable while the refresh runs in the background
+        if (!force && this.jwks.size > 0) {
+            return;
+        }
+
+        await this.jwksRequest;
+    }
+
+    private jwksRetryDelay(): number {
+        return Math.min(JWKS_RETRY_MIN_MS * 2 ** (this.jwksFailures - 1), JWKS_RETRY_MAX_MS);
+    }
+
+    private async fetchJwks(): Promise<void> {
+        try {
+            const { data } = await firstValueFrom(this.httpService.get(this.jwksUri, { timeout: 5000 }));
+            const keys: Map<string, KeyObject> = new Map();
+
+            for (const jwk of data?.keys || []) {
+                if (jwk.use && jwk.use !== 'sig') {
+                    continue;
+                }
+
+                try {
+                    keys.set(jwk.kid || `key-${keys.size}`, createPublicKey({ key: jwk, format: 'jwk' }));
+                } catch (error) {
+                    this.logger.warn(`Skipping invalid JWK ${jwk.kid}: ${error.message}`);
+                }
+            }
+
+            this.jwks = keys;
+            this.jwksFetchedAt = Date.now();
+            this.jwksFailures = 0;
+            this.logger.debug(`Loaded ${keys.size} signing key(s) from ${this.jwksUri}`);
+        } catch (error) {
+            // Keep serving the previously loaded keys if the JWKS endpoint blips
+            this.jwksFailedAt = Date.now();
+            this.jwksFailures++;
+            this.logger.error(`Failed to fetch JWKS from ${this.jwksUri}: ${error.message}`);
+        }
+    }
+
+    private verifySignature(algorithm: JwtAlgorithm, key: KeyObject, input: Buffer, signature: Buffer): boolean {
+        switch (algorithm) {
+            case 'HS256': {
+                const expected = createHmac('sha256', key).update(input).digest();
+                return expected.length === signature.length && timingSafeEqual(expected, signature);
+            }
+            case 'RS256':
+                return verify('sha256', input, key, signature);
+            case 'ES256':
+                return verify('sha256', input, { key, dsaEncoding: 'ieee-p1363' }, signature);
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Checks the exp, nbf, iss and aud claims
+     */
+    private validateClaims(payload: JwtPayload): void {
+        const now = Math.floor(Date.now() / 1000);
+
+        if (typeof payload.exp !== 'number') {
+            throw new AuthenticationException('Token has no expiration.');
+        }
+        if (now - this.clockTolerance >= payload.exp) {
+            throw new AuthenticationException('Token has expired.');
+        }
+        if (typeof payload.nbf === 'number' && now + this.clockTolerance < payload.nbf) {
+            throw new AuthenticationException('Token is not yet valid.');
+        }
+        if (this.issuers.length > 0 && !this.issuers.includes(payload.iss)) {
+            throw new AuthenticationException('Token issuer is not trusted.');
+        }
+        if (this.audiences.length > 0) {
+            const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+            if (!audiences.some(aud => this.audiences.includes(aud))) {
+                throw new AuthenticationException('Token audience is not accepted.');
+            }
+        }
+    }
+
+    private decodeSegment<T>(segment: string): T {
+        return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    }
+
+    private parseList(value?: string): string[] {
+        return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+    }
+}
@@ -0,0 +1,12 @@
+/**
+ * Role of the operators of the gateway as a whole. The `admin` role JWTs carry only
+ * makes a user the admin of their own tenant.
+ */
+export const PLATFORM_ADMIN_ROLE = 'platform-admin';
+
+/**
+ * Whether the user may act across tenants
+ */
+export function isPlatformAdmin(user?: { roles?: string[] }): boolean {
+    return Boolean(user?.roles?.includes(PLATFORM_ADMIN_ROLE));
+}
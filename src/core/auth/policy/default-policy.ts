@@ -0,0 +1,23 @@
+import { PolicyDocument } from './policy.interface';
+
+/**
+ * Policy used until a policy file or Redis document is loaded, or when none exists
+ */
+export const DEFAULT_POLICY: PolicyDocument = {
+    roles: {
+        admin: {
+            '*': ['*'],
+        },
+        user: {
+            user: ['read'],
+            product: ['read'],
+            order: ['create', 'read'],
+            report: ['create', 'read'],
+            item: ['read'],
+            notification: ['create', 'read'],
+            file: ['create', 'read', 'update', 'delete'],
+            folder: ['create', 'read', 'update', 'delete'],
+        },
+    },
+    tenants: {},
+};
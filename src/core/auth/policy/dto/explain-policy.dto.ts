@@ -0,0 +1,29 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsString, IsNotEmpty, IsOptional, IsArray } from 'class-validator';
+
+export class ExplainPolicyDto {
+    @ApiPropertyOptional({ description: 'User the evaluation is for, only used in logs' })
+    @IsString()
+    @IsOptional()
+    userId?: string;
+
+    @ApiProperty({ description: 'Roles of the user', example: ['user'] })
+    @IsArray()
+    @IsString({ each: true })
+    roles: string[];
+
+    @ApiPropertyOptional({ description: 'Tenant id, to apply tenant-specific overrides' })
+    @IsString()
+    @IsOptional()
+    tenantId?: string;
+
+    @ApiProperty({ description: 'Resource being accessed', example: 'item' })
+    @IsString()
+    @IsNotEmpty()
+    resource: string;
+
+    @ApiProperty({ description: 'Action being performed', example: 'read' })
+    @IsString()
+    @IsNotEmpty()
+    action: string;
+}
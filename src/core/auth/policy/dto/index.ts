@@ -0,0 +1 @@
+export * from './explain-policy.dto';
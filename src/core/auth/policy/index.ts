@@ -0,0 +1,4 @@
+export * from './policy.interface';
+export * from './default-policy';
+export * from './policy.service';
+export * from './policy.controller';
@@ -0,0 +1,55 @@
+import { Body, Controller, Get, HttpCode, HttpStatus, Post, Put } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiSecurity, ApiTags } from '@nestjs/swagger';
+import { Roles } from '../decorators/auth.decorator';
+import { PLATFORM_ADMIN_ROLE } from '../platform-admin';
+import { PolicyService } from './policy.service';
+import { PolicyDecision, PolicyDocument, PolicyStatus } from './policy.interface';
+import { ExplainPolicyDto } from './dto';
+
+/**
+ * Admin endpoints to inspect, reload and dry-run the authorization policy.
+ * The policy applies to every tenant, so only platform admins may change it.
+ */
+@ApiTags('Admin - Policies')
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+@Roles('admin')
+@Controller('admin/policies')
+export class PolicyController {
+    constructor(private readonly policyService: PolicyService) { }
+
+    @Get()
+    @ApiOperation({ summary: 'Get policy', description: 'Returns the policy currently in effect' })
+    @ApiResponse({ status: 200, description: 'Policy retrieved successfully' })
+    getPolicy(): { status: PolicyStatus; policy: PolicyDocument } {
+        return { status: this.policyService.getStatus(), policy: this.policyService.getPolicy() };
+    }
+
+    @Put()
+    @Roles(PLATFORM_ADMIN_ROLE)
+    @ApiOperation({ summary: 'Update policy', description: 'Stores and applies a new policy (POLICY_SOURCE=redis only)' })
+    @ApiResponse({ status: 200, description: 'Policy updated' })
+    @ApiResponse({ status: 422, description: 'Invalid policy' })
+    async updatePolicy(@Body() policy: PolicyDocument): Promise<PolicyStatus> {
+        return this.policyService.save(policy);
+    }
+
+    @Post('reload')
+    @Roles(PLATFORM_ADMIN_ROLE)
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Reload policy', description: 'Reloads the policy from its file or Redis' })
+    @ApiResponse({ status: 200, description: 'Policy reloaded' })
+    @ApiResponse({ status: 422, description: 'Invalid policy' })
+    async reload(): Promise<PolicyStatus> {
+        return this.policyService.reload();
+    }
+
+    @Post('explain')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({ summary: 'Explain decision', description: 'Dry-runs a permission check and explains why it is allowed or denied' })
+    @ApiResponse({ status: 200, description: 'Policy decision' })
+    explain(@Body() explainPolicyDto: ExplainPolicyDto): PolicyDecision {
+        const { roles, resource, action, tenantId } = explainPolicyDto;
+        return this.policyService.evaluate(roles, resource, action, tenantId);
+    }
+}
@@ -0,0 +1,50 @@
+/**
+ * Actions granted per resource, per role: role -> resource -> actions.
+ * `*` matches any resource or action.
+ */
+export type PolicyRules = Record<string, Record<string, string[]>>;
+
+/**
+ * A complete policy: global rules plus tenant-specific overrides keyed by tenant id.
+ * An override replaces the global actions of the same role and resource.
+ */
+export interface PolicyDocument {
+    roles: PolicyRules;
+    tenants?: Record<string, PolicyRules>;
+}
+
+export type PolicySource = 'file' | 'redis';
+
+/**
+ * A rule considered while evaluating a permission
+ */
+export interface PolicyRuleTrace {
+    role: string;
+    resource: string;
+    actions: string[];
+    source: 'global' | 'tenant';
+}
+
+/**
+ * Outcome of a permission evaluation, with the reasoning behind it
+ */
+export interface PolicyDecision {
+    allowed: boolean;
+    reason: string;
+    resource: string;
+    action: string;
+    roles: string[];
+    tenantId?: string;
+    matchedRule?: PolicyRuleTrace;
+    evaluatedRules: PolicyRuleTrace[];
+}
+
+/**
+ * State of the loaded policy
+ */
+export interface PolicyStatus {
+    source: PolicySource | 'default';
+    loadedAt: string;
+    roles: string[];
+    tenants: string[];
+}
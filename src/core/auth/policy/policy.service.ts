@@ -0,0 +1,255 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { existsSync, readFileSync } from 'fs';
+import { extname, join } from 'path';
+import { load as loadYaml } from 'js-yaml';
+import { RedisService } from '../../redis/redis.service';
+import { ValidationException } from '../../exceptions';
+import { DEFAULT_POLICY } from './default-policy';
+import { PolicyDecision, PolicyDocument, PolicyRuleTrace, PolicyRules, PolicySource, PolicyStatus } from './policy.interface';
+
+const POLICY_REDIS_KEY = 'api-gateway:policies';
+
+/**
+ * Evaluates role -> resource -> action rules loaded from a policy file or Redis
+ */
+@Injectable()
+export class PolicyService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(PolicyService.name);
+    private readonly source: PolicySource;
+    private readonly policyFile: string;
+    private readonly reloadInterval: number;
+    private reloadTimer?: NodeJS.Timeout;
+
+    private policy: PolicyDocument = DEFAULT_POLICY;
+    private status: PolicyStatus = this.describe(DEFAULT_POLICY, 'default');
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly redisService: RedisService,
+    ) {
+        this.source = this.configService.get<string>('POLICY_SOURCE') === 'redis' ? 'redis' : 'file';
+        this.policyFile = this.configService.get<string>('POLICY_FILE') || join(process.cwd(), 'config', 'policies.yaml');
+        this.reloadInterval = parseInt(this.configService.get<string>('POLICY_RELOAD_INTERVAL') || '0');
+    }
+
+    async onModuleInit(): Promise<void> {
+        try {
+            await this.reload();
+        } catch (error) {
+            this.logger.error(`Failed to load policy, using the default policy: ${error.message}`);
+        }
+
+        if (this.reloadInterval > 0) {
+            this.reloadTimer = setInterval(() => {
+                this.reload().catch(error => this.logger.error(`Policy reload failed, keeping the current policy: ${error.message}`));
+            }, this.reloadInterval * 1000);
+            this.reloadTimer.unref();
+        }
+    }
+
+    onModuleDestroy(): void {
+        if (this.reloadTimer) {
+            clearInterval(this.reloadTimer);
+        }
+    }
+
+    /**
+     * Reloads the policy from its source, keeping the current one if the source is empty
+     * @throws ValidationException if the loaded policy is invalid
+     */
+    async reload(): Promise<PolicyStatus> {
+        const document = this.source === 'redis' ? await this.readFromRedis() : this.readFromFile();
+
+        if (!document) {
+            this.logger.warn(`No policy found in ${this.describeSource()}, keeping the ${this.status.source} policy`);
+            return this.status;
+        }
+
+        this.apply(document, this.source);
+        return this.status;
+    }
+
+    /**
+     * Stores a new policy in Redis and applies it
+     * @throws ValidationException if the policy is invalid or the source isn't Redis
+     */
+    async save(document: PolicyDocument): Promise<PolicyStatus> {
+        if (this.source !== 'redis') {
+            throw new ValidationException('Policies can only be updated at runtime when POLICY_SOURCE is redis');
+        }
+
+        this.validate(document);
+        await this.redisService.setValue(POLICY_REDIS_KEY, JSON.stringify(document));
+
+        this.apply(document, 'redis');
+        return this.status;
+    }
+
+    /**
+     * Returns the policy currently in effect
+     */
+    getPolicy(): PolicyDocument {
+        return this.policy;
+    }
+
+    getStatus(): PolicyStatus {
+        return this.status;
+    }
+
+    /**
+     * Whether any of the roles may perform an action on a resource
+     */
+    isAllowed(roles: string[], resource: string, action: string, tenantId?: string): boolean {
+        return this.evaluate(roles, resource, action, tenantId).allowed;
+    }
+
+    /**
+     * Evaluates a permission and explains the outcome
+     * @param roles Roles of the user
+     * @param resource The resource being accessed
+     * @param action The action being performed
+     * @param tenantId Verified tenant id, whose overrides apply
+     */
+    evaluate(roles: string[], resource: string, action: string, tenantId?: string): PolicyDecision {
+        const evaluatedRules: PolicyRuleTrace[] = [];
+        const decision = { resource, action, roles, tenantId, evaluatedRules };
+
+        for (const role of roles) {
+            const rule = this.resolveRule(role, resource, tenantId);
+            if (!rule) {
+                continue;
+            }
+
+            evaluatedRules.push(rule);
+
+            if (rule.actions.includes('*') || rule.actions.includes(action)) {
+                const scope = rule.source === 'tenant' ? `tenant "${tenantId}" override` : 'global policy';
+                return {
+                    ...decision,
+                    allowed: true,
+                    reason: `Role "${role}" may ${action} "${resource}" (${scope}, resource "${rule.resource}")`,
+                    matchedRule: rule,
+                };
+            }
+        }
+
+        const reason = evaluatedRules.length === 0
+            ? `No rule grants any of the roles [${roles.join(', ')}] access to "${resource}"`
+            : `None of the rules for roles [${evaluatedRules.map(rule => rule.role).join(', ')}] allow "${action}" on "${resource}"`;
+
+        return { ...decision, allowed: false, reason };
+    }
+
+    /**
+     * Finds the actions a role has on a resource, tenant overrides first, exact resource before `*`
+     */
+    private resolveRule(role: string, resource: string, tenantId?: string): PolicyRuleTrace | null {
+        const candidates: { rules?: PolicyRules; source: PolicyRuleTrace['source'] }[] = [
+            { rules: tenantId ? this.policy.tenants?.[tenantId] : undefined, source: 'tenant' },
+            { rules: this.policy.roles, source: 'global' },
+        ];
+
+        for (const { rules, source } of candidates) {
+            const resources = rules?.[role];
+            if (!resources) {
+                continue;
+            }
+
+            for (const key of [resource, '*']) {
+                if (resources[key]) {
+                    return { role, resource: key, actions: resources[key], source };
+                }
+            }
+        }
+
+        return null;
+    }
+
+    private apply(document: PolicyDocument, source: PolicySource): void {
+        this.validate(document);
+
+        this.policy = { roles: document.roles, tenants: document.tenants || {} };
+        this.status = this.describe(this.policy, source);
+
+        this.logger.log(`Loaded policy from ${this.describeSource()}: ${this.status.roles.length} role(s), ${this.status.tenants.length} tenant override(s)`);
+    }
+
+    private readFromFile(): PolicyDocument | null {
+        if (!existsSync(this.policyFile)) {
+            return null;
+        }
+
+        const content = readFileSync(this.policyFile, 'utf8');
+        return (extname(this.policyFile) === '.json' ? JSON.parse(content) : loadYaml(content)) as PolicyDocument;
+    }
+
+    private async readFromRedis(): Promise<PolicyDocument | null> {
+        const value = await this.redisService.getValue(POLICY_REDIS_KEY);
+        return value ? JSON.parse(value) : null;
+    }
+
+    /**
+     * Rejects policies that aren't role -> resource -> actions maps
+     */
+    private validate(document: PolicyDocument): void {
+        const errors: Record<string, any>[] = [];
+
+        const validateRules = (rules: PolicyRules, path: string) => {
+            if (!this.isObject(rules)) {
+                errors.push({ field: path, message: 'must map roles to resources' });
+                return;
+            }
+
+            for (const [role, resources] of Object.entries(rules)) {
+                if (!this.isObject(resources)) {
+                    errors.push({ field: `${path}.${role}`, message: 'must map resources to actions' });
+                    continue;
+                }
+
+                for (const [resource, actions] of Object.entries(resources)) {
+                    if (!Array.isArray(actions) || actions.some(action => typeof action !== 'string')) {
+                        errors.push({ field: `${path}.${role}.${resource}`, message: 'must be a list of actions' });
+                    }
+                }
+            }
+        };
+
+        if (!this.isObject(document)) {
+            throw new ValidationException('Policy must be an object with a "roles" map');
+        }
+
+        validateRules(document.roles, 'roles');
+
+        if (document.tenants !== undefined && document.tenants !== null) {
+            if (!this.isObject(document.tenants)) {
+                errors.push({ field: 'tenants', message: 'must map tenant ids to rules' });
+            } else {
+                for (const [tenant, rules] of Object.entries(document.tenants)) {
+                    validateRules(rules, `tenants.${tenant}`);
+                }
+            }
+        }
+
+        if (errors.length > 0) {
+            throw new ValidationException('Invalid policy', errors);
+        }
+    }
+
+    private describe(policy: PolicyDocument, source: PolicyStatus['source']): PolicyStatus {
+        return {
+            source,
+            loadedAt: new Date().toISOString(),
+            roles: Object.keys(policy.roles),
+            tenants: Object.keys(policy.tenants || {}),
+        };
+    }
+
+    private describeSource(): string {
+        return this.source === 'redis' ? `Redis key ${POLICY_REDIS_KEY}` : this.policyFile;
+    }
+
+    private isObject(value: unknown): value is Record<string, any> {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+}
@@ -0,0 +1,160 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { RedisService } from '../redis/redis.service';
+import { ServiceUnavailableException } from '../exceptions';
+import { JwtVerifierService } from './jwt-verifier.service';
+
+export type AuthFailureMode = 'open' | 'closed';
+
+const AUTH_FAILURE_MODES: AuthFailureMode[] = ['open', 'closed'];
+
+/**
+ * Caches token validation results in Redis and keeps a denylist of revoked tokens,
+ * shared by all gateway instances
+ */
+@Injectable()
+export class TokenCacheService {
+    private readonly logger = new Logger(TokenCacheService.name);
+    private readonly cacheTtl: number;
+    private readonly revocationTtl: number;
+    private readonly failureMode: AuthFailureMode;
+
+    constructor(
+        private readonly redisService: RedisService,
+        private readonly configService: ConfigService,
+        private readonly jwtVerifier: JwtVerifierService,
+    ) {
+        this.cacheTtl = parseInt(this.configService.get<string>('AUTH_CACHE_TTL') || '300');
+        this.revocationTtl = parseInt(this.configService.get<string>('AUTH_REVOCATION_TTL') || '86400');
+
+        const failureMode = this.configService.get<string>('AUTH_FAILURE_MODE') as AuthFailureMode;
+        if (failureMode && !AUTH_FAILURE_MODES.includes(failureMode)) {
+            this.logger.warn(`Unknown AUTH_FAILURE_MODE "${failureMode}", using open`);
+        }
+        this.failureMode = AUTH_FAILURE_MODES.includes(failureMode) ? failureMode : 'open';
+    }
+
+    /**
+     * Gets the cached validation result of a token
+     * @param token The token, with or without the Bearer prefix
+     * @returns The cached user data, or null on a cache miss or while Redis is unavailable
+     */
+    async get(token: string): Promise<any | null> {
+        // Commands are queued rather than rejected while disconnected, don't wait for them
+        if (this.cacheTtl <= 0 || !this.redisService.isReady()) {
+            return null;
+        }
+
+        try {
+            const value = await this.redisService.getValue(this.cacheKey(token));
+            return value ? JSON.parse(value) : null;
+        } catch (error) {
+            this.logger.error(`Error reading token cache: ${error.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Caches the validation result of a token, never beyond the token's own expiry
+     * @param token The token, with or without the Bearer prefix
+     * @param userData The user data returned by the token validation
+     */
+    async set(token: string, userData: any): Promise<void> {
+        const ttl = Math.min(this.cacheTtl, this.secondsUntilExpiry(token, userData) ?? this.cacheTtl);
+
+        if (ttl <= 0 || !this.redisService.isReady()) {
+            return;
+        }
+
+        try {
+            await this.redisService.setValue(this.cacheKey(token), JSON.stringify(userData), ttl);
+        } catch (error) {
+            this.logger.error(`Error writing token cache: ${error.message}`);
+        }
+    }
+
+    /**
+     * Whether a token is on the revocation denylist. While Redis is unavailable, AUTH_FAILURE_MODE
+     * decides: `open` treats the token as not revoked, `closed` rejects the request.
+     * @throws ServiceUnavailableException when the denylist can't be checked in `closed` mode
+     */
+    async isRevoked(token: string): Promise<boolean> {
+        if (this.redisService.isReady()) {
+            try {
+                return Boolean(await this.redisService.getValue(this.revokedKey(token)));
+            } catch (error) {
+                this.logger.error(`Error checking token revocation: ${error.message}`);
+            }
+        }
+
+        if (this.failureMode === 'closed') {
+            throw new ServiceUnavailableException('Authentication');
+        }
+
+        this.logger.debug('Redis unavailable, token revocation not checked');
+        return false;
+    }
+
+    /**
+     * Revokes a token on all gateway instances until it expires
+     * @param token The token, with or without the Bearer prefix
+     * @throws ServiceUnavailableException when the revocation can't be stored, the token would keep working
+     */
+    async revoke(token: string): Promise<void> {
+        // The verifier still accepts the token for the clock tolerance after its expiry
+        const expiresIn = this.secondsUntilExpiry(token);
+        const ttl = expiresIn !== undefined ? expiresIn + this.jwtVerifier.clockTolerance : this.revocationTtl;
+
+        // Commands are queued rather than rejected while disconnected, don't wait for them
+        if (!this.redisService.isReady()) {
+            throw new ServiceUnavailableException('Authentication');
+        }
+
+        if (ttl > 0) {
+            try {
+                await this.redisService.setValueOrFail(this.revokedKey(token), new Date().toISOString(), ttl);
+            } catch {
+                throw new ServiceUnavailableException('Authentication');
+            }
+        }
+
+        // The denylist is checked before the cache, a stale cache entry is harmless
+        try {
+            await this.redisService.deleteKey(this.cacheKey(token));
+        } catch (error) {
+            this.logger.error(`Error clearing token cache: ${error.message}`);
+        }
+
+        this.logger.log(`Token ${this.hashToken(token).slice(0, 12)}... revoked for ${ttl}s`);
+    }
+
+    /**
+     * Seconds until the token expires, read from the validation result or the JWT exp claim
+     */
+    private secondsUntilExpiry(token: string, userData?: any): number | undefined {
+        const exp = userData?.exp ?? this.jwtVerifier.decode(this.stripBearer(token))?.exp;
+
+        if (typeof exp !== 'number') {
+            return undefined;
+        }
+
+        return exp - Math.floor(Date.now() / 1000);
+    }
+
+    private cacheKey(token: string): string {
+        return `api-gateway:auth:token:${this.hashToken(token)}`;
+    }
+
+    private revokedKey(token: string): string {
+        return `api-gateway:auth:revoked:${this.hashToken(token)}`;
+    }
+
+    private hashToken(token: string): string {
+        return createHash('sha256').update(this.stripBearer(token)).digest('hex');
+    }
+
+    private stripBearer(token: string): string {
+        return token.replace(/^Bearer\s+/i, '');
+    }
+}
@@ -0,0 +1,43 @@
+import { Injectable, NestInterceptor, ExecutionContext, CallHandler } from '@nestjs/common';
+import { Observable, defer, finalize, from, switchMap } from 'rxjs';
+import { ConcurrencyService } from './concurrency.service';
+import { ConcurrencyLease } from './concurrency.interface';
+
+/**
+ * Holds a tenant and an API key concurrency slot for the duration of each request
+ */
+@Injectable()
+export class ConcurrencyInterceptor implements NestInterceptor {
+    constructor(private readonly concurrencyService: ConcurrencyService) { }
+
+    intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+        const user = context.switchToHttp().getRequest().user;
+
+        if (!user?.tenantId && !user?.apiKeyId) {
+            return next.handle();
+        }
+
+        const leases: ConcurrencyLease[] = [];
+        const releaseAll = () => leases.forEach(lease => lease.release());
+
+        return defer(() => from(this.acquireAll(user, leases))).pipe(
+            switchMap(() => next.handle()),
+            finalize(releaseAll)
+        );
+    }
+
+    private async acquireAll(user: Record<string, any>, leases: ConcurrencyLease[]): Promise<void> {
+        const subjects = [
+            user.tenantId && { scope: 'tenant' as const, id: user.tenantId },
+            user.apiKeyId && { scope: 'apiKey' as const, id: user.apiKeyId },
+        ].filter(Boolean);
+
+        // Acquired leases are collected as we go, so finalize frees them if a later scope is full
+        for (const { scope, id } of subjects) {
+            const lease = await this.concurrencyService.acquire(scope, id);
+            if (lease) {
+                leases.push(lease);
+            }
+        }
+    }
+}
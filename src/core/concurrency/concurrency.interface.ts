@@ -0,0 +1,12 @@
+export type ConcurrencyScope = 'tenant' | 'apiKey' | 'upstream';
+
+export const CONCURRENCY_SCOPES: ConcurrencyScope[] = ['tenant', 'apiKey', 'upstream'];
+
+/**
+ * A slot held in a concurrency semaphore, renewed until released
+ */
+export interface ConcurrencyLease {
+    scope: ConcurrencyScope;
+    id: string;
+    release(): Promise<void>;
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ConcurrencyService } from './concurrency.service';
+import { ConcurrencyInterceptor } from './concurrency.interceptor';
+import { RedisModule } from '../redis/redis.module';
+
+@Module({
+    imports: [RedisModule],
+    providers: [ConcurrencyService, ConcurrencyInterceptor],
+    exports: [ConcurrencyService, ConcurrencyInterceptor],
+})
+export class ConcurrencyModule { }
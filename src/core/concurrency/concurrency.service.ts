@@ -0,0 +1,159 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { RedisService } from '../redis/redis.service';
+import { ConcurrencyLimitExceededException } from '../exceptions';
+import { ConcurrencyLease, ConcurrencyScope } from './concurrency.interface';
+
+// Semaphore as a sorted set of lease tokens scored by their expiry, so slots
+// of crashed instances free themselves once the lease runs out.
+// KEYS[1] = semaphore; ARGV = limit, now (ms), lease (ms), token
+const ACQUIRE_SCRIPT = `
+local now = tonumber(ARGV[2])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now)
+local count = redis.call('ZCARD', KEYS[1])
+if count >= tonumber(ARGV[1]) then
+    return { 0, count }
+end
+redis.call('ZADD', KEYS[1], now + tonumber(ARGV[3]), ARGV[4])
+redis.call('PEXPIRE', KEYS[1], ARGV[3])
+return { 1, count + 1 }
+`;
+
+// Extends a lease that is still held. KEYS[1] = semaphore; ARGV = now (ms), lease (ms), token
+const RENEW_SCRIPT = `
+if not redis.call('ZSCORE', KEYS[1], ARGV[3]) then
+    return 0
+end
+redis.call('ZADD', KEYS[1], tonumber(ARGV[1]) + tonumber(ARGV[2]), ARGV[3])
+redis.call('PEXPIRE', KEYS[1], ARGV[2])
+return 1
+`;
+
+const SCOPE_LABELS: Record<ConcurrencyScope, string> = {
+    tenant: 'tenant',
+    apiKey: 'API key',
+    upstream: 'upstream',
+};
+
+/**
+ * Caps simultaneous in-flight requests per tenant, API key and upstream with Redis semaphores
+ */
+@Injectable()
+export class ConcurrencyService {
+    private readonly logger = new Logger(ConcurrencyService.name);
+    private readonly limits: Record<ConcurrencyScope, number>;
+    private readonly leaseTtl: number;
+    private readonly queueTimeout: number;
+
+    constructor(
+        private readonly redisService: RedisService,
+        private readonly configService: ConfigService,
+    ) {
+        this.limits = {
+            tenant: parseInt(this.configService.get<string>('CONCURRENCY_TENANT_LIMIT') || '50'),
+            apiKey: parseInt(this.configService.get<string>('CONCURRENCY_API_KEY_LIMIT') || '20'),
+            upstream: parseInt(this.configService.get<string>('CONCURRENCY_UPSTREAM_LIMIT') || '100'),
+        };
+        this.leaseTtl = parseInt(this.configService.get<string>('CONCURRENCY_LEASE_TTL') || '30') * 1000;
+        this.queueTimeout = parseInt(this.configService.get<string>('CONCURRENCY_QUEUE_TIMEOUT_MS') || '500');
+    }
+
+    /**
+     * Limit for a scope; upstreams can override it with SERVICE_X_MAX_CONCURRENCY. 0 disables the limit.
+     */
+    getLimit(scope: ConcurrencyScope, id: string): number {
+        if (scope === 'upstream') {
+            const envPrefix = id.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+            const override = this.configService.get<string>(`${envPrefix}_MAX_CONCURRENCY`);
+            if (override !== undefined && override !== '') {
+                return parseInt(override);
+            }
+        }
+
+        return this.limits[scope];
+    }
+
+    /**
+     * Takes a slot, waiting up to CONCURRENCY_QUEUE_TIMEOUT_MS for one to free up
+     * @param scope What the slot is counted against
+     * @param id Tenant id, API key id or upstream name
+     * @returns The lease to release when the request completes, or null when the scope is unlimited
+     * @throws ConcurrencyLimitExceededException when no slot frees up in time
+     */
+    async acquire(scope: ConcurrencyScope, id: string): Promise<ConcurrencyLease | null> {
+        const limit = this.getLimit(scope, id);
+        if (!(limit > 0)) {
+            return null;
+        }
+
+        // Commands are queued rather than rejected while disconnected, fail open without waiting for them
+        if (!this.redisService.isReady()) {
+            this.logger.debug(`Redis unavailable, ${scope} concurrency for ${id} not limited`);
+            return null;
+        }
+
+        const key = `api-gateway:concurrency:${scope}:${id}`;
+        const token = randomBytes(8).toString('hex');
+        const deadline = Date.now() + this.queueTimeout;
+
+        try {
+            for (let attempt = 0; ; attempt++) {
+                const [acquired] = await this.redisService.runScript<number[]>(
+                    ACQUIRE_SCRIPT,
+                    [key],
+                    [limit, Date.now(), this.leaseTtl, token]
+                );
+
+                if (acquired === 1) {
+                    return this.createLease(scope, id, key, token);
+                }
+
+                const wait = Math.min(25 * 2 ** attempt, 200, deadline - Date.now());
+                if (wait <= 0) {
+                    break;
+                }
+                await new Promise(resolve => setTimeout(resolve, wait + Math.random() * 10));
+            }
+        } catch (error) {
+            // Fail open, a Redis outage should not take the gateway down
+            this.logger.error(`Error acquiring ${scope} concurrency slot for ${id}: ${error.message}`);
+            return null;
+        }
+
+        this.logger.warn(`Concurrency limit of ${limit} reached for ${scope} ${id}`);
+        throw new ConcurrencyLimitExceededException(SCOPE_LABELS[scope], limit);
+    }
+
+    /**
+     * Keeps the lease alive while the request runs and frees the slot on release
+     */
+    private createLease(scope: ConcurrencyScope, id: string, key: string, token: string): ConcurrencyLease {
+        const renewal = setInterval(() => {
+            this.redisService.runScript<number>(RENEW_SCRIPT, [key], [Date.now(), this.leaseTtl, token])
+                .catch(error => this.logger.error(`Error renewing ${scope} concurrency lease for ${id}: ${error.message}`));
+        }, this.leaseTtl / 3);
+        renewal.unref();
+
+        let released = false;
+
+        return {
+            scope,
+            id,
+            release: async () => {
+                if (released) {
+                    return;
+                }
+                released = true;
+                clearInterval(renewal);
+
+                try {
+                    await this.redisService.removeFromSortedSet(key, token);
+                } catch (error) {
+                    // The lease expires on its own
+                    this.logger.error(`Error releasing ${scope} concurrency slot for ${id}: ${error.message}`);
+                }
+            },
+        };
+    }
+}
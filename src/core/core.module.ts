@@ -1,13 +1,21 @@
 import { Module } from '@nestjs/common';
-import { APP_FILTER, APP_GUARD } from '@nestjs/core';
+import { APP_FILTER, APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { AllExceptionsFilter } from './filters/all-exception.filter';
 import { AuthModule } from './auth/auth.module';
 import { RedisModule } from './redis/redis.module';
 import { ThrottlerModule } from './throttler/throttler.module';
+import { RoutingModule } from './routing/routing.module';
+import { QuotaModule } from './quota/quota.module';
+import { ConcurrencyModule } from './concurrency/concurrency.module';
+import { LoadSheddingModule } from './load-shedding/load-shedding.module';
 import { JwtAuthGuard } from './auth/guards/jwt-auth.guard';
 import { ApiKeyAuthGuard } from './auth/guards/api-key-auth.guard';
 import { RolesGuard } from './auth/guards/roles.guard';
+import { AbacGuard } from './auth/guards/abac.guard';
 import { ThrottlerGuard } from './throttler/throttler.guard';
+import { QuotaGuard } from './quota/quota.guard';
+import { ConcurrencyInterceptor } from './concurrency/concurrency.interceptor';
+import { DeadlineInterceptor } from './deadline/deadline.interceptor';
 
 /**
  * Core module for global filters, guards, interceptors, and middlewares.
@@ -16,7 +24,11 @@ import { ThrottlerGuard } from './throttler/throttler.guard';
   imports: [
     AuthModule,
     RedisModule,
-    ThrottlerModule
+    ThrottlerModule,
+    RoutingModule,
+    QuotaModule,
+    ConcurrencyModule,
+    LoadSheddingModule
   ],
   providers: [
     // Register global exception filter
@@ -37,15 +49,37 @@ import { ThrottlerGuard } from './throttler/throttler.guard';
       provide: APP_GUARD,
       useClass: RolesGuard
     },
+    {
+      provide: APP_GUARD,
+      useClass: AbacGuard
+    },
     {
       provide: APP_GUARD,
       useClass: ThrottlerGuard
+    },
+    {
+      provide: APP_GUARD,
+      useClass: QuotaGuard
+    },
+    // Start the request deadline before waiting for a concurrency slot, so the wait counts
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: DeadlineInterceptor
+    },
+    // Hold tenant and API key concurrency slots once the guards have identified the caller
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: ConcurrencyInterceptor
     }
   ],
   exports: [
     AuthModule,
     RedisModule,
-    ThrottlerModule
+    ThrottlerModule,
+    RoutingModule,
+    QuotaModule,
+    ConcurrencyModule,
+    LoadSheddingModule
   ],
 })
 export class CoreModule { }
\ No newline at end of file
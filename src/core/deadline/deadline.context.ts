@@ -0,0 +1,32 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Carries the request deadline to upstreams, as epoch milliseconds
+ */
+export const DEADLINE_HEADER = 'x-request-deadline';
+
+const storage = new AsyncLocalStorage<number>();
+
+/**
+ * Runs a function with the deadline of the request it serves, so upstream calls made
+ * anywhere below it can read the time left
+ * @param deadline - Epoch milliseconds by which the request must be answered
+ */
+export function runWithDeadline<T>(deadline: number, fn: () => T): T {
+    return storage.run(deadline, fn);
+}
+
+/**
+ * Deadline of the current request, undefined outside a request
+ */
+export function getDeadline(): number | undefined {
+    return storage.getStore();
+}
+
+/**
+ * Parses a deadline received from a caller, undefined when missing or invalid
+ */
+export function parseDeadline(value?: string | string[]): number | undefined {
+    const deadline = Number(Array.isArray(value) ? value[0] : value);
+    return Number.isInteger(deadline) && deadline > 0 ? deadline : undefined;
+}
@@ -0,0 +1,42 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { Observable, throwError, timeout } from 'rxjs';
+import { GatewayTimeoutException } from '../exceptions';
+import { resolveRouteMetadata } from '../routing/route-metadata.util';
+import { REQUEST_TIMEOUT_KEY } from './decorators/request-timeout.decorator';
+import { DEADLINE_HEADER, parseDeadline, runWithDeadline } from './deadline.context';
+
+/**
+ * Gives each request a deadline from its route timeout, shortened by the caller's
+ * x-request-deadline, and answers 504 once it passes
+ */
+@Injectable()
+export class DeadlineInterceptor implements NestInterceptor {
+    private readonly defaultTimeout: number;
+
+    constructor(
+        private readonly reflector: Reflector,
+        private readonly configService: ConfigService,
+    ) {
+        this.defaultTimeout = parseInt(this.configService.get<string>('REQUEST_TIMEOUT_MS') || '30000');
+    }
+
+    intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+        const request = context.switchToHttp().getRequest<Request>();
+        const timeoutMs = resolveRouteMetadata<number>(this.reflector, REQUEST_TIMEOUT_KEY, context) ?? this.defaultTimeout;
+
+        // A caller with a deadline of its own can only shorten ours
+        const callerDeadline = parseDeadline(request.headers[DEADLINE_HEADER]);
+        const deadline = Math.min(Date.now() + timeoutMs, callerDeadline ?? Infinity);
+
+        // The handler subscribes, and calls its upstreams, inside the deadline context
+        return new Observable(subscriber => runWithDeadline(deadline, () => next.handle().subscribe(subscriber))).pipe(
+            timeout({
+                first: Math.max(0, deadline - Date.now()),
+                with: () => throwError(() => new GatewayTimeoutException()),
+            })
+        );
+    }
+}
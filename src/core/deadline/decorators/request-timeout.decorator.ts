@@ -0,0 +1,9 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const REQUEST_TIMEOUT_KEY = 'requestTimeout';
+
+/**
+ * Total time the gateway may spend on a request (ms), upstream calls and retries included.
+ * Overrides REQUEST_TIMEOUT_MS, e.g. @RequestTimeout(120000) for file uploads
+ */
+export const RequestTimeout = (timeoutMs: number) => SetMetadata(REQUEST_TIMEOUT_KEY, timeoutMs);
@@ -28,4 +28,18 @@ export class GatewayTimeoutException extends BaseException {
             'ERR_GATEWAY_TIMEOUT'
         );
     }
-}
\ No newline at end of file
+}
+/**
+ * Thrown when a request is shed because the gateway or its upstream is overloaded
+ */
+export class OverloadedException extends BaseException {
+    constructor(retryAfter: number) {
+        super(
+            'ServiceOverloaded',
+            'The service is overloaded, please try again later.',
+            HttpStatus.SERVICE_UNAVAILABLE,
+            'ERR_SERVICE_OVERLOADED'
+        );
+        (this.getResponse() as Record<string, any>).retryAfter = retryAfter;
+    }
+}
@@ -1,6 +1,20 @@
 import { HttpStatus } from '@nestjs/common';
 import { BaseException } from './base.exception';
 
+/**
+ * Adds when the client may retry to a 429 response body; the exception filter
+ * mirrors `retryAfter` in the Retry-After header
+ */
+function withRetryInfo(exception: BaseException, resetTime?: number, retryAfter?: number): void {
+    const response = exception.getResponse() as Record<string, any>;
+
+    if (resetTime) {
+        response.resetTime = resetTime;
+    }
+
+    response.retryAfter = retryAfter ?? (resetTime ? Math.max(1, resetTime - Math.floor(Date.now() / 1000)) : 1);
+}
+
 /**
  * Thrown when rate limit is exceeded
  */
@@ -17,5 +31,42 @@ export class RateLimitExceededException extends BaseException {
             HttpStatus.TOO_MANY_REQUESTS,
             'ERR_RATE_LIMIT_EXCEEDED'
         );
+        withRetryInfo(this, resetTime);
+    }
+}
+
+/**
+ * Thrown when a plan quota (e.g. monthly calls) is used up
+ */
+export class QuotaExceededException extends BaseException {
+    constructor(metric: string, period: string, resetTime?: number) {
+        let message = `The ${period} ${metric} quota of your plan has been used up.`;
+        if (resetTime) {
+            message += ` Quota resets at ${new Date(resetTime * 1000).toISOString()}`;
+        }
+
+        super(
+            'QuotaExceeded',
+            message,
+            HttpStatus.TOO_MANY_REQUESTS,
+            'ERR_QUOTA_EXCEEDED'
+        );
+        withRetryInfo(this, resetTime);
+    }
+}
+
+/**
+ * Thrown when too many requests of a tenant, API key or upstream are in flight at once
+ */
+export class ConcurrencyLimitExceededException extends BaseException {
+    constructor(scope: string, limit: number) {
+        super(
+            'TooManyConcurrentRequests',
+            `Too many concurrent requests for this ${scope} (limit ${limit}), please try again later.`,
+            HttpStatus.TOO_MANY_REQUESTS,
+            'ERR_CONCURRENCY_LIMIT_EXCEEDED'
+        );
+        // Slots free up as soon as a request completes
+        withRetryInfo(this, undefined, 1);
     }
-}
\ No newline at end of file
+}
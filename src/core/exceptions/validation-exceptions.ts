@@ -58,6 +58,20 @@ export class InvalidFileNameException extends BaseException {
     }
 }
 
+/**
+ * Thrown when a request body must declare its size in Content-Length
+ */
+export class LengthRequiredException extends BaseException {
+    constructor() {
+        super(
+            'LengthRequired',
+            'The request must include a Content-Length header.',
+            HttpStatus.LENGTH_REQUIRED,
+            'ERR_LENGTH_REQUIRED'
+        );
+    }
+}
+
 /**
  * Thrown when a file is too large
  */
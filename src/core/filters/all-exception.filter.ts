@@ -156,6 +156,13 @@ export class AllExceptionsFilter implements ExceptionFilter {
             };
         }
 
+        // Tell clients when to come back on every 429 and shed 503; the exceptions carry the exact delay
+        if (status === HttpStatus.TOO_MANY_REQUESTS && !response.getHeader('Retry-After')) {
+            response.setHeader('Retry-After', String(errorResponse.retryAfter ?? 1));
+        } else if (status === HttpStatus.SERVICE_UNAVAILABLE && errorResponse.retryAfter) {
+            response.setHeader('Retry-After', String(errorResponse.retryAfter));
+        }
+
         // Add request ID for better tracking if available
         if (request.headers['x-request-id']) {
             errorResponse.requestId = request.headers['x-request-id'];
@@ -0,0 +1,155 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { IntervalHistogram, monitorEventLoopDelay } from 'perf_hooks';
+import { getHeapStatistics } from 'v8';
+import { LoadSheddingThresholds, LoadStatus, RequestPriority } from './load-shedding.interface';
+
+const SAMPLE_INTERVAL_MS = 1000;
+// Upstream latencies considered for the p95
+const LATENCY_WINDOW_MS = 60000;
+const MAX_LATENCY_SAMPLES = 500;
+// Fewer samples don't make a meaningful percentile
+const MIN_PERCENTILE_SAMPLES = 10;
+// Past this multiple of a threshold, MEDIUM priority traffic is shed as well
+const SEVERE_OVERLOAD_FACTOR = 1.5;
+
+interface LatencySample {
+    at: number;
+    durationMs: number;
+}
+
+/**
+ * Samples event-loop delay, heap usage and upstream latencies to decide which priorities to shed
+ */
+@Injectable()
+export class LoadMonitorService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(LoadMonitorService.name);
+    private readonly latencies: Map<string, LatencySample[]> = new Map();
+    private histogram: IntervalHistogram;
+    private timer: NodeJS.Timeout;
+    private thresholds: LoadSheddingThresholds = {};
+
+    // Latest samples
+    private eventLoopDelayMs = 0;
+    private heapUsedRatio = 0;
+    private readonly upstreamP95: Map<string, number> = new Map();
+
+    // Last reported shedding state per upstream ('' for the gateway itself), to log changes only
+    private readonly reported: Map<string, RequestPriority | undefined> = new Map();
+
+    onModuleInit(): void {
+        this.histogram = monitorEventLoopDelay({ resolution: 20 });
+        this.histogram.enable();
+
+        this.timer = setInterval(() => this.sample(), SAMPLE_INTERVAL_MS);
+        this.timer.unref();
+    }
+
+    onModuleDestroy(): void {
+        clearInterval(this.timer);
+        this.histogram?.disable();
+    }
+
+    configure(thresholds: LoadSheddingThresholds): void {
+        this.thresholds = thresholds;
+    }
+
+    /**
+     * Records how long a call to an upstream took
+     */
+    recordUpstreamLatency(upstream: string, durationMs: number): void {
+        const samples = this.latencies.get(upstream) || [];
+        samples.push({ at: Date.now(), durationMs });
+
+        if (samples.length > MAX_LATENCY_SAMPLES) {
+            samples.shift();
+        }
+
+        this.latencies.set(upstream, samples);
+    }
+
+    /**
+     * Latency percentile of an upstream over the last minute, undefined until enough calls were made
+     * @param percentile - e.g. 90 for the p90
+     */
+    getUpstreamLatency(upstream: string, percentile: number): number | undefined {
+        const since = Date.now() - LATENCY_WINDOW_MS;
+        const recent = (this.latencies.get(upstream) || []).filter(sample => sample.at >= since);
+
+        return recent.length >= MIN_PERCENTILE_SAMPLES ? percentileOf(recent, percentile) : undefined;
+    }
+
+    /**
+     * Whether latencies are tracked for an upstream
+     */
+    isKnownUpstream(upstream: string): boolean {
+        return this.latencies.has(upstream);
+    }
+
+    /**
+     * Which priorities to shed, for the gateway and optionally the upstream a request goes to
+     */
+    getStatus(upstream?: string): LoadStatus {
+        const reasons: string[] = [];
+        let worst = 0;
+
+        const check = (label: string, value: number, threshold: number | undefined, format: (v: number) => string) => {
+            if (!threshold || value < threshold) {
+                return;
+            }
+            reasons.push(`${label} ${format(value)} > ${format(threshold)}`);
+            worst = Math.max(worst, value / threshold);
+        };
+
+        check('event loop delay', this.eventLoopDelayMs, this.thresholds.eventLoopDelayMs, v => `${Math.round(v)}ms`);
+        check('heap usage', this.heapUsedRatio, this.thresholds.heapUsedRatio, v => `${Math.round(v * 100)}%`);
+        if (upstream && this.upstreamP95.has(upstream)) {
+            check(`${upstream} p95 latency`, this.upstreamP95.get(upstream), this.thresholds.upstreamP95Ms, v => `${Math.round(v)}ms`);
+        }
+
+        const shedBelow: RequestPriority | undefined = worst >= SEVERE_OVERLOAD_FACTOR ? 'HIGH' : worst >= 1 ? 'MEDIUM' : undefined;
+        this.reportChange(upstream || '', shedBelow, reasons);
+
+        return { shedBelow, reasons };
+    }
+
+    private sample(): void {
+        // The histogram reports nanoseconds
+        this.eventLoopDelayMs = this.histogram.percentile(99) / 1e6;
+        this.histogram.reset();
+
+        const { used_heap_size, heap_size_limit } = getHeapStatistics();
+        this.heapUsedRatio = used_heap_size / heap_size_limit;
+
+        const since = Date.now() - LATENCY_WINDOW_MS;
+        for (const [upstream, samples] of this.latencies) {
+            const recent = samples.filter(sample => sample.at >= since);
+            this.latencies.set(upstream, recent);
+
+            if (recent.length === 0) {
+                this.upstreamP95.delete(upstream);
+                continue;
+            }
+
+            this.upstreamP95.set(upstream, percentileOf(recent, 95));
+        }
+    }
+
+    private reportChange(scope: string, shedBelow: RequestPriority | undefined, reasons: string[]): void {
+        if (this.reported.get(scope) === shedBelow) {
+            return;
+        }
+        this.reported.set(scope, shedBelow);
+
+        const target = scope ? `requests to ${scope}` : 'requests';
+        if (shedBelow) {
+            this.logger.warn(`Overloaded (${reasons.join(', ')}), shedding ${target} below ${shedBelow} priority`);
+        } else {
+            this.logger.log(`Load back to normal, no longer shedding ${target}`);
+        }
+    }
+}
+
+function percentileOf(samples: LatencySample[], percentile: number): number {
+    const sorted = samples.map(sample => sample.durationMs).sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * percentile / 100))];
+}
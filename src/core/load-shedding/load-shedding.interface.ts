@@ -0,0 +1,51 @@
+/**
+ * Priority of a request while the gateway sheds load, same levels as NotificationPriority
+ */
+export type RequestPriority = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+/** Lowest priority first */
+export const REQUEST_PRIORITIES: RequestPriority[] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+export interface LoadSheddingThresholds {
+    /** p99 event-loop delay over the last sampling interval, in milliseconds */
+    eventLoopDelayMs?: number;
+    /** Used heap as a share of the heap size limit, 0-1 */
+    heapUsedRatio?: number;
+    /** p95 latency of an upstream over the last minute, in milliseconds */
+    upstreamP95Ms?: number;
+}
+
+/**
+ * Priority of the requests matching a route; paths match by prefix
+ */
+export interface LoadSheddingRoute {
+    method?: string;
+    path: string;
+    priority: RequestPriority;
+}
+
+/**
+ * Load shedding configuration, see config/load-shedding.yaml
+ */
+export interface LoadSheddingConfig {
+    thresholds: LoadSheddingThresholds;
+    /** Seconds clients are told to wait in Retry-After */
+    retryAfter?: number;
+    /** Priority of requests nothing else assigns one to */
+    defaultPriority?: RequestPriority;
+    /** Highest priority an authenticated client may claim with the X-Request-Priority header, MEDIUM by default */
+    headerMaxPriority?: RequestPriority;
+    /** Role -> priority, read from the verified bearer token */
+    roles?: Record<string, RequestPriority>;
+    routes?: LoadSheddingRoute[];
+}
+
+/**
+ * Current load of the gateway, and of the upstream a request goes to
+ */
+export interface LoadStatus {
+    /** Priorities below this one are rejected, undefined when nothing is shed */
+    shedBelow?: RequestPriority;
+    /** Thresholds crossed, e.g. "event loop delay 340ms > 200ms" */
+    reasons: string[];
+}
@@ -0,0 +1,32 @@
+import { Injectable, Logger, NestMiddleware } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { LoadSheddingService } from './load-shedding.service';
+import { OverloadedException } from '../exceptions';
+
+/**
+ * Rejects low-priority requests while the gateway or their upstream is overloaded,
+ * before authentication and the rest of the guards spend any work on them
+ */
+@Injectable()
+export class LoadSheddingMiddleware implements NestMiddleware {
+    private readonly logger = new Logger(LoadSheddingMiddleware.name);
+
+    constructor(private readonly loadSheddingService: LoadSheddingService) { }
+
+    async use(req: Request, res: Response, next: NextFunction) {
+        const path = req.originalUrl.split('?')[0];
+
+        // Health checks must keep answering, load balancers rely on them
+        if (!this.loadSheddingService.isEnabled() || /^(\/api)?(\/[^/]+)?\/health$/.test(path)) {
+            return next();
+        }
+
+        const shed = await this.loadSheddingService.shouldShed(req);
+        if (shed) {
+            this.logger.debug(`Shed ${shed.priority} priority ${req.method} ${path}: ${shed.reasons.join(', ')}`);
+            throw new OverloadedException(this.loadSheddingService.getRetryAfter());
+        }
+
+        next();
+    }
+}
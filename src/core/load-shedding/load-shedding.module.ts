@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { LoadMonitorService } from './load-monitor.service';
+import { LoadSheddingService } from './load-shedding.service';
+import { LoadSheddingMiddleware } from './load-shedding.middleware';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+    imports: [AuthModule],
+    providers: [LoadMonitorService, LoadSheddingService, LoadSheddingMiddleware],
+    exports: [LoadMonitorService, LoadSheddingService, LoadSheddingMiddleware],
+})
+export class LoadSheddingModule { }
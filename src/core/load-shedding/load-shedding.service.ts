@@ -0,0 +1,164 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { existsSync, readFileSync } from 'fs';
+import { extname, join } from 'path';
+import { load as loadYaml } from 'js-yaml';
+import { JwtPayload, JwtVerifierService } from '../auth/jwt-verifier.service';
+import { LoadMonitorService } from './load-monitor.service';
+import { LoadSheddingConfig, REQUEST_PRIORITIES, RequestPriority } from './load-shedding.interface';
+
+export const REQUEST_PRIORITY_HEADER = 'x-request-priority';
+
+/**
+ * Decides which requests to reject while the gateway or an upstream is overloaded
+ */
+@Injectable()
+export class LoadSheddingService {
+    private readonly logger = new Logger(LoadSheddingService.name);
+    private readonly config: LoadSheddingConfig | null;
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly loadMonitorService: LoadMonitorService,
+        private readonly jwtVerifierService: JwtVerifierService,
+    ) {
+        const file = this.configService.get<string>('LOAD_SHEDDING_FILE') || join(process.cwd(), 'config', 'load-shedding.yaml');
+        this.config = this.load(file);
+        this.loadMonitorService.configure(this.config?.thresholds || {});
+    }
+
+    isEnabled(): boolean {
+        return this.config !== null;
+    }
+
+    /**
+     * Seconds clients are told to wait before retrying
+     */
+    getRetryAfter(): number {
+        return this.config?.retryAfter ?? 5;
+    }
+
+    /**
+     * Checks whether a request should be rejected
+     * @returns The crossed thresholds if the request is shed, otherwise null
+     */
+    async shouldShed(request: Request): Promise<{ priority: RequestPriority; reasons: string[] } | null> {
+        const status = this.loadMonitorService.getStatus(this.resolveUpstream(request));
+        if (!status.shedBelow) {
+            return null;
+        }
+
+        const priority = await this.resolvePriority(request);
+        if (rank(priority) >= rank(status.shedBelow)) {
+            return null;
+        }
+
+        return { priority, reasons: status.reasons };
+    }
+
+    /**
+     * The highest of the route, role and (capped) header priorities, or the default priority.
+     * Roles and the header only count for callers with a verified bearer token.
+     */
+    async resolvePriority(request: Request): Promise<RequestPriority> {
+        const candidates: RequestPriority[] = [];
+        const path = request.originalUrl.split('?')[0];
+
+        const routePriority = request.gatewayRoute?.definition.priority
+            || this.config.routes?.find(route =>
+                (!route.method || route.method.toUpperCase() === request.method) && path.startsWith(route.path)
+            )?.priority;
+        if (routePriority) {
+            candidates.push(routePriority);
+        }
+
+        const header = String(request.headers[REQUEST_PRIORITY_HEADER] || '').toUpperCase() as RequestPriority;
+        const claimsPriority = Boolean(this.config.roles) || REQUEST_PRIORITIES.includes(header);
+
+        // Guards haven't run yet, so the token is verified here; anonymous callers can't raise their priority
+        const payload = claimsPriority ? await this.verifyBearerToken(request) : null;
+        if (payload) {
+            const roles: string[] = Array.isArray(payload.roles) ? payload.roles : [];
+            roles.map(role => this.config.roles?.[role]).filter(Boolean).forEach(priority => candidates.push(priority));
+
+            if (REQUEST_PRIORITIES.includes(header)) {
+                const max = this.config.headerMaxPriority || 'MEDIUM';
+                candidates.push(rank(header) > rank(max) ? max : header);
+            }
+        }
+
+        if (candidates.length === 0) {
+            return this.config.defaultPriority || 'MEDIUM';
+        }
+
+        return candidates.reduce((highest, priority) => rank(priority) > rank(highest) ? priority : highest);
+    }
+
+    /**
+     * Verifies the bearer token locally, only ever done while shedding
+     * @returns The payload, or null without a valid JWT or when no verification key is configured
+     */
+    private async verifyBearerToken(request: Request): Promise<JwtPayload | null> {
+        const token = request.headers.authorization?.replace(/^Bearer\s+/i, '');
+        if (!token || !this.jwtVerifierService.isEnabled() || !this.jwtVerifierService.isJwt(token)) {
+            return null;
+        }
+
+        try {
+            return await this.jwtVerifierService.verify(token);
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * The upstream a request goes to: the route table entry, or the controller prefix, e.g. /api/service-a/...
+     */
+    private resolveUpstream(request: Request): string | undefined {
+        if (request.gatewayRoute) {
+            return request.gatewayRoute.definition.upstream;
+        }
+
+        const segment = request.originalUrl.split('?')[0].replace(/^\/api/, '').split('/')[1];
+        return segment && this.loadMonitorService.isKnownUpstream(segment) ? segment : undefined;
+    }
+
+    /**
+     * Loads and validates the configuration from a YAML or JSON file
+     */
+    private load(file: string): LoadSheddingConfig | null {
+        if (!existsSync(file)) {
+            this.logger.warn(`Load shedding configuration ${file} not found. Load shedding is disabled.`);
+            return null;
+        }
+
+        const content = readFileSync(file, 'utf8');
+        const config = ((extname(file) === '.json' ? JSON.parse(content) : loadYaml(content)) || {}) as LoadSheddingConfig;
+        config.thresholds = config.thresholds || {};
+
+        const priorities = [
+            config.defaultPriority,
+            config.headerMaxPriority,
+            ...Object.values(config.roles || {}),
+            ...(config.routes || []).map(route => route.priority),
+        ].filter(priority => priority !== undefined);
+        const invalid = priorities.find(priority => !REQUEST_PRIORITIES.includes(priority));
+        if (invalid) {
+            throw new Error(`Unsupported priority "${invalid}" in ${file}, expected one of: ${REQUEST_PRIORITIES.join(', ')}`);
+        }
+
+        for (const [name, value] of Object.entries(config.thresholds)) {
+            if (!(value > 0)) {
+                throw new Error(`Threshold ${name} in ${file} must be a positive number`);
+            }
+        }
+
+        this.logger.log(`Loaded load shedding configuration from ${file}`);
+        return config;
+    }
+}
+
+function rank(priority: RequestPriority): number {
+    return REQUEST_PRIORITIES.indexOf(priority);
+}
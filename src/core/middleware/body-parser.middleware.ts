@@ -1,13 +1,33 @@
 import { Injectable, NestMiddleware } from '@nestjs/common';
-import { Request, Response, NextFunction } from 'express';
+import { Request, Response, NextFunction, json, urlencoded } from 'express';
 
+// The parsers Nest registers by default, see bodyParser: false in main.ts
+const parseJson = json();
+const parseUrlencoded = urlencoded({ extended: true });
+
+/**
+ * Parses JSON and URL-encoded bodies. Registered after load shedding, so shed
+ * requests are rejected before their body is read.
+ */
 @Injectable()
 export class BodyParserMiddleware implements NestMiddleware {
     use(req: Request, res: Response, next: NextFunction) {
-        // Set default empty object for PUT requests without a body
-        if (req.method === 'PUT' && (!req.body || Object.keys(req.body).length === 0)) {
-            req.body = {};
-        }
-        next();
+        parseJson(req, res, jsonError => {
+            if (jsonError) {
+                return next(jsonError);
+            }
+
+            parseUrlencoded(req, res, urlencodedError => {
+                if (urlencodedError) {
+                    return next(urlencodedError);
+                }
+
+                // Set default empty object for PUT requests without a body
+                if (req.method === 'PUT' && (!req.body || Object.keys(req.body).length === 0)) {
+                    req.body = {};
+                }
+                next();
+            });
+        });
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+import { QuotaMetric } from '../quota.interface';
+
+export const QUOTA_METRICS_KEY = 'quotaMetrics';
+
+/**
+ * Additional quota metrics a handler consumes on top of `requests`,
+ * e.g. @QuotaMetrics('upload-bytes') counts the request body size
+ */
+export const QuotaMetrics = (...metrics: QuotaMetric[]) => SetMetadata(QUOTA_METRICS_KEY, metrics);
@@ -0,0 +1,70 @@
+import { QuotaPeriod } from './quota.interface';
+
+export interface QuotaWindow {
+    /** Identifies the period in Redis keys, e.g. 2026-10 or 2026-10-19 */
+    key: string;
+    /** Start of the period (ms) */
+    start: number;
+    /** End of the period, when the quota resets (ms) */
+    end: number;
+}
+
+/**
+ * Computes the calendar period containing a point in time
+ * @param period daily or monthly
+ * @param now The point in time
+ * @param timeZone IANA time zone the calendar boundaries are in
+ * @param monthlyResetDay Day of the month monthly periods start on
+ */
+export function getQuotaWindow(period: QuotaPeriod, now: Date, timeZone: string, monthlyResetDay: number = 1): QuotaWindow {
+    const { year, month, day } = getZonedDate(now, timeZone);
+
+    if (period === 'daily') {
+        return {
+            key: `${year}-${pad(month)}-${pad(day)}`,
+            start: zonedMidnight(year, month, day, timeZone),
+            end: zonedMidnight(year, month, day + 1, timeZone),
+        };
+    }
+
+    // Before the reset day, the period started in the previous month
+    const startMonth = day >= monthlyResetDay ? month : month - 1;
+    const start = zonedMidnight(year, startMonth, monthlyResetDay, timeZone);
+    const startDate = getZonedDate(new Date(start), timeZone);
+
+    return {
+        key: `${startDate.year}-${pad(startDate.month)}`,
+        start,
+        end: zonedMidnight(year, startMonth + 1, monthlyResetDay, timeZone),
+    };
+}
+
+function getZonedDate(date: Date, timeZone: string): { year: number; month: number; day: number; hour: number; minute: number } {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        hourCycle: 'h23',
+    }).formatToParts(date);
+    const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0');
+
+    return { year: part('year'), month: part('month'), day: part('day'), hour: part('hour'), minute: part('minute') };
+}
+
+/**
+ * Epoch (ms) of midnight of a calendar date in a time zone; out of range months and days roll over
+ */
+function zonedMidnight(year: number, month: number, day: number, timeZone: string): number {
+    const utc = Date.UTC(year, month - 1, day);
+    const zoned = getZonedDate(new Date(utc), timeZone);
+    const offset = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute) - utc;
+
+    return utc - offset;
+}
+
+function pad(value: number): string {
+    return String(value).padStart(2, '0');
+}
@@ -0,0 +1,82 @@
+import { Injectable, CanActivate, ExecutionContext, Logger } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Response } from 'express';
+import { QuotaService } from './quota.service';
+import { QuotaMetric, QuotaUsage } from './quota.interface';
+import { QUOTA_METRICS_KEY } from './decorators/quota-metric.decorator';
+import { IS_PUBLIC_KEY } from '../auth/decorators/public.decorator';
+import { resolveRouteMetadata } from '../routing/route-metadata.util';
+import { LengthRequiredException, QuotaExceededException } from '../exceptions';
+
+@Injectable()
+export class QuotaGuard implements CanActivate {
+    private readonly logger = new Logger(QuotaGuard.name);
+
+    constructor(
+        private readonly quotaService: QuotaService,
+        private readonly reflector: Reflector
+    ) { }
+
+    async canActivate(context: ExecutionContext): Promise<boolean> {
+        const isPublic = resolveRouteMetadata<boolean>(this.reflector, IS_PUBLIC_KEY, context);
+
+        if (isPublic || !this.quotaService.isEnabled()) {
+            return true;
+        }
+
+        const request = context.switchToHttp().getRequest();
+        const response = context.switchToHttp().getResponse<Response>();
+
+        const subjects = this.quotaService.resolveSubjects(request.user);
+        if (subjects.length === 0) {
+            return true;
+        }
+
+        // Every request counts against `requests`, handlers opt into the other metrics
+        const amounts: Partial<Record<QuotaMetric, number>> = { requests: 1 };
+        const metrics = resolveRouteMetadata<QuotaMetric[]>(this.reflector, QUOTA_METRICS_KEY, context) || [];
+        if (metrics.includes('upload-bytes')) {
+            // A chunked body can't be charged up front, so the size must be declared
+            const contentLength = Number(request.headers['content-length']);
+            if (!request.headers['content-length'] || !Number.isInteger(contentLength) || contentLength < 0) {
+                throw new LengthRequiredException();
+            }
+            amounts['upload-bytes'] = contentLength;
+        }
+
+        const result = await this.quotaService.consume(subjects, amounts);
+
+        for (const metric of Object.keys(amounts) as QuotaMetric[]) {
+            const usage = result.exceeded && result.usage.metric === metric
+                ? result.usage
+                : this.quotaService.mostConstrained(result.usages.filter(u => u.metric === metric));
+            this.setHeaders(response, usage);
+        }
+
+        if (result.exceeded) {
+            const { subject, period, metric, resetTime } = result.usage;
+            this.logger.warn(`Rejected ${request.method} ${request.path}: ${period} ${metric} quota of ${subject} used up`);
+            throw new QuotaExceededException(metric, period, resetTime);
+        }
+
+        return true;
+    }
+
+    /**
+     * Sets X-Quota-* headers for requests, X-Quota-Upload-Bytes-* for upload bytes
+     */
+    private setHeaders(response: Response, usage?: QuotaUsage): void {
+        if (!usage) {
+            return;
+        }
+
+        const prefix = usage.metric === 'requests'
+            ? 'X-Quota'
+            : `X-Quota-${usage.metric.split('-').map(word => word[0].toUpperCase() + word.slice(1)).join('-')}`;
+
+        response.header(`${prefix}-Limit`, usage.limit.toString());
+        response.header(`${prefix}-Remaining`, usage.remaining.toString());
+        response.header(`${prefix}-Reset`, usage.resetTime.toString());
+        response.header(`${prefix}-Period`, usage.period);
+    }
+}
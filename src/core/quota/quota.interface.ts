@@ -0,0 +1,62 @@
+export type QuotaMetric = 'requests' | 'upload-bytes';
+
+export type QuotaPeriod = 'daily' | 'monthly';
+
+export const QUOTA_METRICS: QuotaMetric[] = ['requests', 'upload-bytes'];
+
+export const QUOTA_PERIODS: QuotaPeriod[] = ['daily', 'monthly'];
+
+/**
+ * Allowances of a plan: metric -> period -> limit
+ */
+export type QuotaPlan = Partial<Record<QuotaMetric, Partial<Record<QuotaPeriod, number>>>>;
+
+/**
+ * Quota configuration: plans and the tenants and API keys subscribed to them
+ */
+export interface QuotaConfig {
+    /** Time zone of the calendar boundaries quotas reset on */
+    timeZone?: string;
+    /** Day of the month monthly quotas reset on (1-28) */
+    monthlyResetDay?: number;
+    /** Plan of tenants not listed in `tenants` */
+    defaultPlan?: string;
+    plans: Record<string, QuotaPlan>;
+    /** Tenant id -> plan name */
+    tenants?: Record<string, string>;
+    /** API key id -> plan name */
+    apiKeys?: Record<string, string>;
+}
+
+/**
+ * Who a quota is tracked for, e.g. tenant:acme or api-key:1a2b3c
+ */
+export interface QuotaSubject {
+    id: string;
+    plan: string;
+}
+
+/**
+ * Usage of one quota in the current period
+ */
+export interface QuotaUsage {
+    subject: string;
+    plan: string;
+    metric: QuotaMetric;
+    period: QuotaPeriod;
+    limit: number;
+    used: number;
+    remaining: number;
+    /** Unix time (seconds) at which the quota resets */
+    resetTime: number;
+}
+
+/**
+ * Outcome of consuming quota
+ */
+export interface QuotaResult {
+    exceeded: boolean;
+    /** The exhausted quota when exceeded, otherwise the most constrained one */
+    usage?: QuotaUsage;
+    usages: QuotaUsage[];
+}
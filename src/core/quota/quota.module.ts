@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { QuotaService } from './quota.service';
+import { QuotaGuard } from './quota.guard';
+import { RedisModule } from '../redis/redis.module';
+
+@Module({
+    imports: [RedisModule],
+    providers: [QuotaService, QuotaGuard],
+    exports: [QuotaService, QuotaGuard],
+})
+export class QuotaModule { }
@@ -0,0 +1,228 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { existsSync, readFileSync } from 'fs';
+import { extname, join } from 'path';
+import { load as loadYaml } from 'js-yaml';
+import { RedisService } from '../redis/redis.service';
+import { getQuotaWindow } from './quota-period.util';
+import {
+    QUOTA_METRICS, QUOTA_PERIODS, QuotaConfig, QuotaMetric, QuotaPeriod,
+    QuotaResult, QuotaSubject, QuotaUsage
+} from './quota.interface';
+
+// Checks every counter first so a request is either counted everywhere or nowhere.
+// KEYS = counters; ARGV = amounts, then limits, then expiry timestamps (one per key)
+const CONSUME_QUOTA_SCRIPT = `
+local n = #KEYS
+local used = {}
+for i = 1, n do
+    used[i] = tonumber(redis.call('GET', KEYS[i]) or '0')
+end
+for i = 1, n do
+    if used[i] + tonumber(ARGV[i]) > tonumber(ARGV[n + i]) then
+        return { 0, i, unpack(used) }
+    end
+end
+for i = 1, n do
+    used[i] = redis.call('INCRBY', KEYS[i], ARGV[i])
+    redis.call('EXPIREAT', KEYS[i], ARGV[2 * n + i])
+end
+return { 1, 0, unpack(used) }
+`;
+
+// Counters outlive their period by a day so the last usage can still be inspected
+const COUNTER_RETENTION_SECONDS = 86400;
+
+interface QuotaEntry {
+    subject: QuotaSubject;
+    metric: QuotaMetric;
+    period: QuotaPeriod;
+    limit: number;
+    amount: number;
+    key: string;
+    resetTime: number;
+}
+
+/**
+ * Tracks long-horizon plan quotas per tenant and per API key in Redis
+ */
+@Injectable()
+export class QuotaService {
+    private readonly logger = new Logger(QuotaService.name);
+    private readonly config: QuotaConfig;
+
+    constructor(
+        private readonly redisService: RedisService,
+        private readonly configService: ConfigService,
+    ) {
+        const quotaFile = this.configService.get<string>('QUOTA_FILE') || join(process.cwd(), 'config', 'quotas.yaml');
+        this.config = this.load(quotaFile);
+    }
+
+    /**
+     * Whether any plan is configured
+     */
+    isEnabled(): boolean {
+        return Object.keys(this.config.plans).length > 0;
+    }
+
+    /**
+     * Finds the tenant and API key subscriptions of an authenticated user
+     */
+    resolveSubjects(user?: Record<string, any>): QuotaSubject[] {
+        const subjects: QuotaSubject[] = [];
+
+        const tenantPlan = user?.tenantId && (this.config.tenants?.[user.tenantId] || this.config.defaultPlan);
+        if (tenantPlan && this.config.plans[tenantPlan]) {
+            subjects.push({ id: `tenant:${user.tenantId}`, plan: tenantPlan });
+        }
+
+        const apiKeyPlan = user?.apiKeyId && this.config.apiKeys?.[user.apiKeyId];
+        if (apiKeyPlan && this.config.plans[apiKeyPlan]) {
+            subjects.push({ id: `api-key:${user.apiKeyId}`, plan: apiKeyPlan });
+        }
+
+        return subjects;
+    }
+
+    /**
+     * Consumes quota for every subject, atomically: nothing is counted if any quota would be exceeded
+     * @param subjects The tenant and API key subscriptions to charge
+     * @param amounts Amount consumed per metric, e.g. { requests: 1, 'upload-bytes': 52431 }
+     */
+    async consume(subjects: QuotaSubject[], amounts: Partial<Record<QuotaMetric, number>>): Promise<QuotaResult> {
+        const entries = this.buildEntries(subjects, amounts);
+
+        if (entries.length === 0) {
+            return { exceeded: false, usages: [] };
+        }
+
+        // Commands are queued rather than rejected while disconnected, fail open without waiting for them
+        if (!this.redisService.isReady()) {
+            this.logger.debug('Redis unavailable, quota not consumed');
+            return { exceeded: false, usages: [] };
+        }
+
+        try {
+            const [allowed, exceededIndex, ...used] = await this.redisService.runScript<number[]>(
+                CONSUME_QUOTA_SCRIPT,
+                entries.map(entry => entry.key),
+                [
+                    ...entries.map(entry => entry.amount),
+                    ...entries.map(entry => entry.limit),
+                    ...entries.map(entry => entry.resetTime + COUNTER_RETENTION_SECONDS),
+                ]
+            );
+
+            const usages = entries.map((entry, index) => this.toUsage(entry, used[index] || 0));
+
+            if (allowed !== 1) {
+                const usage = usages[exceededIndex - 1];
+                this.logger.warn(`Quota exceeded for ${usage.subject}: ${usage.period} ${usage.metric} (${usage.used}/${usage.limit})`);
+                return { exceeded: true, usage, usages };
+            }
+
+            return { exceeded: false, usage: this.mostConstrained(usages), usages };
+        } catch (error) {
+            // Fail open, quotas are billing limits rather than a protection mechanism
+            this.logger.error(`Error consuming quota: ${error.message}`);
+            return { exceeded: false, usages: [] };
+        }
+    }
+
+    /**
+     * The usage with the fewest remaining units, relative to its limit
+     */
+    mostConstrained(usages: QuotaUsage[]): QuotaUsage | undefined {
+        return usages.reduce<QuotaUsage | undefined>(
+            (lowest, usage) => !lowest || usage.remaining / usage.limit < lowest.remaining / lowest.limit ? usage : lowest,
+            undefined
+        );
+    }
+
+    private buildEntries(subjects: QuotaSubject[], amounts: Partial<Record<QuotaMetric, number>>): QuotaEntry[] {
+        const now = new Date();
+        const timeZone = this.config.timeZone || 'UTC';
+        const entries: QuotaEntry[] = [];
+
+        for (const subject of subjects) {
+            const plan = this.config.plans[subject.plan];
+
+            for (const [metric, amount] of Object.entries(amounts) as [QuotaMetric, number][]) {
+                if (!(amount > 0)) {
+                    continue;
+                }
+
+                for (const [period, limit] of Object.entries(plan[metric] || {}) as [QuotaPeriod, number][]) {
+                    const window = getQuotaWindow(period, now, timeZone, this.config.monthlyResetDay);
+
+                    entries.push({
+                        subject,
+                        metric,
+                        period,
+                        limit,
+                        amount,
+                        key: `api-gateway:quota:${subject.id}:${metric}:${period}:${window.key}`,
+                        resetTime: Math.ceil(window.end / 1000),
+                    });
+                }
+            }
+        }
+
+        return entries;
+    }
+
+    private toUsage(entry: QuotaEntry, used: number): QuotaUsage {
+        return {
+            subject: entry.subject.id,
+            plan: entry.subject.plan,
+            metric: entry.metric,
+            period: entry.period,
+            limit: entry.limit,
+            used,
+            remaining: Math.max(0, entry.limit - used),
+            resetTime: entry.resetTime,
+        };
+    }
+
+    /**
+     * Loads and validates the quota configuration from a YAML or JSON file
+     */
+    private load(quotaFile: string): QuotaConfig {
+        if (!existsSync(quotaFile)) {
+            this.logger.warn(`Quota configuration ${quotaFile} not found. Quotas are disabled.`);
+            return { plans: {} };
+        }
+
+        const content = readFileSync(quotaFile, 'utf8');
+        const config = ((extname(quotaFile) === '.json' ? JSON.parse(content) : loadYaml(content)) || {}) as QuotaConfig;
+        config.plans = config.plans || {};
+
+        for (const [name, plan] of Object.entries(config.plans)) {
+            for (const [metric, periods] of Object.entries(plan || {})) {
+                if (!QUOTA_METRICS.includes(metric as QuotaMetric)) {
+                    throw new Error(`Plan "${name}" in ${quotaFile} has an unsupported metric: ${metric}`);
+                }
+                for (const [period, limit] of Object.entries(periods || {})) {
+                    if (!QUOTA_PERIODS.includes(period as QuotaPeriod) || !(limit > 0)) {
+                        throw new Error(`Plan "${name}" in ${quotaFile} has an invalid ${metric} quota: ${period}=${limit}`);
+                    }
+                }
+            }
+        }
+
+        const subscriptions = { ...(config.tenants || {}), ...(config.apiKeys || {}) };
+        for (const plan of [...Object.values(subscriptions), config.defaultPlan].filter(Boolean)) {
+            if (!config.plans[plan]) {
+                throw new Error(`Unknown plan "${plan}" in ${quotaFile}`);
+            }
+        }
+
+        if (config.monthlyResetDay !== undefined && !(config.monthlyResetDay >= 1 && config.monthlyResetDay <= 28)) {
+            throw new Error(`monthlyResetDay in ${quotaFile} must be between 1 and 28`);
+        }
+
+        this.logger.log(`Loaded ${Object.keys(config.plans).length} quota plan(s) from ${quotaFile}`);
+        return config;
+    }
+}
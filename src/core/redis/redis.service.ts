@@ -1,11 +1,23 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
 import { createClient, RedisClientType } from 'redis';
 
+// INCRBY and EXPIRE in one step, so a counter can never be left without a TTL
+const INCREMENT_WITH_EXPIRY_SCRIPT = `
+local value = redis.call('INCRBY', KEYS[1], ARGV[1])
+if tonumber(ARGV[2]) > 0 and redis.call('TTL', KEYS[1]) < 0 then
+    redis.call('EXPIRE', KEYS[1], ARGV[2])
+end
+return value
+`;
+
 @Injectable()
 export class RedisService {
     private readonly logger = new Logger(RedisService.name, { timestamp: true });
     redisClient: RedisClientType;
+    private readonly scriptShas: Map<string, string> = new Map();
+    private subscriber?: RedisClientType;
 
     constructor(private readonly configService: ConfigService) {
         const REDIS_HOST = this.configService.get<string>('REDIS_HOST_MASTER') || 'localhost';
@@ -25,11 +37,32 @@ export class RedisService {
         });
     }
 
-    async setValue(key: string, value: string, ttl: number) {
+    /**
+     * Whether the client is connected and accepting commands; commands sent while
+     * disconnected are queued until the connection is back
+     */
+    isReady(): boolean {
+        return this.redisClient.isReady;
+    }
+
+    async setValue(key: string, value: string, ttl?: number) {
+        try {
+            await this.redisClient.set(key, value, ttl ? { EX: ttl } : undefined);
+        } catch (e) {
+            this.logger.error(`Error occurred while setting: ${e.message}`);
+        }
+    }
+
+    /**
+     * Sets a value like setValue, but lets the caller know when the write failed
+     * @throws The Redis error
+     */
+    async setValueOrFail(key: string, value: string, ttl?: number): Promise<void> {
         try {
-            await this.redisClient.set(key, value, { EX: ttl });
+            await this.redisClient.set(key, value, ttl ? { EX: ttl } : undefined);
         } catch (e) {
             this.logger.error(`Error occurred while setting: ${e.message}`);
+            throw e;
         }
     }
 
@@ -51,6 +84,42 @@ export class RedisService {
         }
     }
 
+    async addToSet(key: string, member: string) {
+        try {
+            return await this.redisClient.sAdd(key, member);
+        } catch (e) {
+            this.logger.error(`Error occurred while adding to set: ${e.message}`);
+            throw e;
+        }
+    }
+
+    async removeFromSet(key: string, member: string) {
+        try {
+            return await this.redisClient.sRem(key, member);
+        } catch (e) {
+            this.logger.error(`Error occurred while removing from set: ${e.message}`);
+            throw e;
+        }
+    }
+
+    async getSetMembers(key: string): Promise<string[]> {
+        try {
+            return await this.redisClient.sMembers(key);
+        } catch (e) {
+            this.logger.error(`Error occurred while reading set: ${e.message}`);
+            return [];
+        }
+    }
+
+    async removeFromSortedSet(key: string, member: string) {
+        try {
+            return await this.redisClient.zRem(key, member);
+        } catch (e) {
+            this.logger.error(`Error occurred while removing from sorted set: ${e.message}`);
+            throw e;
+        }
+    }
+
     async incrementBy(key: string, increment: number) {
         try {
             return await this.redisClient.incrBy(key, increment);
@@ -62,18 +131,103 @@ export class RedisService {
 
     async incrementByThrottler(key: string, increment: number = 1, ttl?: number) {
         try {
-            const value = await this.redisClient.incrBy(key, increment);
-            if (ttl && value === increment) {
-                // Only set TTL if this is the first increment
-                await this.redisClient.expire(key, ttl);
-            }
-            return value;
+            return await this.incrementWithExpiry(key, increment, ttl);
         } catch (e) {
             this.logger.error(`Error occurred while incrementing in Redis: ${e.message}`);
             return 0;
         }
     }
 
+    /**
+     * Atomically increments a counter and sets its TTL if it has none
+     * @param key The counter key
+     * @param increment The amount to add
+     * @param ttl TTL in seconds, applied when the key has no TTL yet
+     * @returns The new value
+     */
+    async incrementWithExpiry(key: string, increment: number = 1, ttl?: number): Promise<number> {
+        return this.runScript<number>(INCREMENT_WITH_EXPIRY_SCRIPT, [key], [increment, ttl || 0]);
+    }
+
+    /**
+     * Lists the keys matching a pattern, scanning incrementally instead of blocking with KEYS
+     * @param pattern SCAN match pattern, e.g. api-gateway:throttle:*
+     */
+    async scanKeys(pattern: string): Promise<string[]> {
+        const keys: string[] = [];
+
+        for await (const key of this.redisClient.scanIterator({ MATCH: pattern, COUNT: 500 })) {
+            keys.push(key);
+        }
+
+        return keys;
+    }
+
+    /**
+     * Sets a TTL on every key matching a pattern that has none, scanning incrementally
+     * @param pattern SCAN match pattern, e.g. api-gateway:throttle:*
+     * @param ttl TTL in seconds to apply
+     * @returns The number of repaired keys
+     */
+    async expireKeysWithoutTtl(pattern: string, ttl: number): Promise<number> {
+        let repaired = 0;
+
+        for await (const key of this.redisClient.scanIterator({ MATCH: pattern, COUNT: 500 })) {
+            // -1 means the key exists without an expiry
+            if (await this.redisClient.ttl(key) === -1) {
+                await this.redisClient.expire(key, ttl);
+                repaired++;
+            }
+        }
+
+        return repaired;
+    }
+
+    /**
+     * Runs a Lua script atomically, by SHA when Redis already has it cached
+     * @param script The Lua source
+     * @param keys Keys the script accesses
+     * @param args Additional arguments
+     */
+    async runScript<T = unknown>(script: string, keys: string[], args: (string | number)[] = []): Promise<T> {
+        let sha = this.scriptShas.get(script);
+        if (!sha) {
+            sha = createHash('sha1').update(script).digest('hex');
+            this.scriptShas.set(script, sha);
+        }
+
+        const options = { keys, arguments: args.map(String) };
+
+        try {
+            return await this.redisClient.evalSha(sha, options) as T;
+        } catch (e) {
+            if (!e.message?.startsWith('NOSCRIPT')) {
+                this.logger.error(`Error occurred while running script: ${e.message}`);
+                throw e;
+            }
+
+            // Not cached on this Redis node yet, EVAL loads it
+            return await this.redisClient.eval(script, options) as T;
+        }
+    }
+
+    /**
+     * Subscribes to a channel on a dedicated connection, since a subscribed client can't run other commands
+     * @param channel The channel name
+     * @param listener Called with every message
+     */
+    async subscribe(channel: string, listener: (message: string) => void): Promise<void> {
+        if (!this.subscriber) {
+            this.subscriber = this.redisClient.duplicate();
+            this.subscriber.on('error', (err) => {
+                this.logger.error(`Redis subscriber error: ${err}`);
+            });
+            await this.subscriber.connect();
+        }
+
+        await this.subscriber.subscribe(channel, listener);
+    }
+
     async decrementBy(key: string, decrement: number) {
         try {
             return await this.redisClient.decrBy(key, decrement);
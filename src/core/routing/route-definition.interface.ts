@@ -0,0 +1,55 @@
+import { RateLimitOptions } from '../throttler/rate-limit.interface';
+import { RequestPriority } from '../load-shedding/load-shedding.interface';
+import { RetryPolicy } from '../../services/shared/services/retry-policy';
+import { HedgePolicy } from '../../services/shared/services/hedge-policy';
+
+export type RouteMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Rate limit declared on a route, equivalent of @RateLimit
+ */
+export type RouteRateLimit = RateLimitOptions;
+
+/**
+ * A single entry of the declarative route table
+ */
+export interface RouteDefinition {
+    // Unique identifier, used for logging, telemetry and cache keys
+    id: string;
+    method: RouteMethod;
+    // Path relative to the gateway prefix, e.g. /service-a/items/:id
+    path: string;
+    // Name of the upstream, resolved from SERVICE_X_URL / SERVICE_X_API_KEY
+    upstream: string;
+    // Upstream path template, defaults to the route path
+    rewrite?: string;
+    public?: boolean;
+    roles?: string[];
+    resource?: string;
+    action?: string;
+    // Cache TTL in seconds for GET routes
+    cacheTtl?: number;
+    // Total time the gateway may spend on the request (ms), equivalent of @RequestTimeout
+    timeout?: number;
+    rateLimit?: RouteRateLimit;
+    // Priority while the gateway sheds load, defaults to the load shedding configuration
+    priority?: RequestPriority;
+    // Overrides the upstream retry policy, false disables retries
+    retry?: Partial<RetryPolicy> | false;
+    // Hedge slow GET requests to another upstream instance, true for the default policy
+    hedge?: HedgePolicy | boolean;
+}
+
+export interface RouteTableConfig {
+    routes: RouteDefinition[];
+}
+
+/**
+ * A route definition matched against an incoming request
+ */
+export interface MatchedRoute {
+    definition: RouteDefinition;
+    params: Record<string, string>;
+    // Decorator equivalents keyed by the same metadata keys as @Resource, @Action, @Roles and @Public
+    metadata: Record<string, any>;
+}
@@ -0,0 +1,25 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { GATEWAY_ROUTE_PREFIX, RouteTableService } from './route-table.service';
+
+/**
+ * Matches requests under the gateway prefix against the route table so that
+ * guards and the proxy controller can read the route declaration
+ */
+@Injectable()
+export class RouteMatchMiddleware implements NestMiddleware {
+    private readonly pathPattern = new RegExp(`^(?:/api)?/${GATEWAY_ROUTE_PREFIX}(/.*)$`);
+
+    constructor(private readonly routeTableService: RouteTableService) { }
+
+    use(req: Request, res: Response, next: NextFunction) {
+        const path = req.originalUrl.split('?')[0];
+        const match = this.pathPattern.exec(path);
+
+        if (match) {
+            req.gatewayRoute = this.routeTableService.match(req.method, match[1]) || undefined;
+        }
+
+        next();
+    }
+}
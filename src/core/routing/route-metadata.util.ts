@@ -0,0 +1,20 @@
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+
+/**
+ * Reads route metadata from the handler and controller decorators, falling back
+ * to the declaration of the matched route table entry for proxied routes
+ */
+export function resolveRouteMetadata<T>(reflector: Reflector, key: string, context: ExecutionContext): T | undefined {
+    const value = reflector.getAllAndOverride<T>(key, [
+        context.getHandler(),
+        context.getClass(),
+    ]);
+
+    if (value !== undefined) {
+        return value;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    return request.gatewayRoute?.metadata[key];
+}
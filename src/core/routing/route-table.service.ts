@@ -0,0 +1,199 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { existsSync, readFileSync } from 'fs';
+import { extname, join } from 'path';
+import { load as loadYaml } from 'js-yaml';
+import { ACTION_KEY, IS_PUBLIC_KEY, RESOURCE_KEY, ROLES_KEY } from '../auth/decorators/auth.decorator';
+import { RATE_LIMIT_ALGORITHMS, RATE_LIMIT_SCOPES } from '../throttler/rate-limit.interface';
+import { RATE_LIMIT_KEY } from '../throttler/decorators/rate-limit.decorator';
+import { REQUEST_TIMEOUT_KEY } from '../deadline/decorators/request-timeout.decorator';
+import { isValidRateLimitCost } from '../throttler/rate-limit-cost.util';
+import { isValidRetryPolicy } from '../../services/shared/services/retry-policy';
+import { isValidHedgePolicy } from '../../services/shared/services/hedge-policy';
+import { REQUEST_PRIORITIES } from '../load-shedding/load-shedding.interface';
+import { MatchedRoute, RouteDefinition, RouteTableConfig } from './route-definition.interface';
+
+export const GATEWAY_ROUTE_PREFIX = 'gateway';
+
+const SUPPORTED_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+interface CompiledRoute {
+    definition: RouteDefinition;
+    pattern: RegExp;
+    paramNames: string[];
+    metadata: Record<string, any>;
+}
+
+@Injectable()
+export class RouteTableService {
+    private readonly logger = new Logger(RouteTableService.name);
+    private routes: CompiledRoute[] = [];
+
+    constructor(private readonly configService: ConfigService) {
+        const routesFile = this.configService.get<string>('GATEWAY_ROUTES_FILE') || join(process.cwd(), 'config', 'routes.yaml');
+        this.load(routesFile);
+    }
+
+    /**
+     * Returns all loaded route definitions
+     */
+    getRoutes(): RouteDefinition[] {
+        return this.routes.map(route => route.definition);
+    }
+
+    /**
+     * Finds the route definition matching a method and a path relative to the gateway prefix
+     * @param method The HTTP method of the request
+     * @param path The request path without the gateway prefix, e.g. /service-a/items/42
+     * @returns The matched route with its extracted params, or null if nothing matches
+     */
+    match(method: string, path: string): MatchedRoute | null {
+        for (const route of this.routes) {
+            if (route.definition.method !== method.toUpperCase()) {
+                continue;
+            }
+
+            const result = route.pattern.exec(path);
+            if (!result) {
+                continue;
+            }
+
+            const params: Record<string, string> = {};
+            route.paramNames.forEach((name, index) => {
+                params[name] = decodeURIComponent(result[index + 1] || '');
+            });
+
+            return { definition: route.definition, params, metadata: route.metadata };
+        }
+
+        return null;
+    }
+
+    /**
+     * Builds the upstream path for a matched route by applying its rewrite template
+     */
+    buildUpstreamPath(route: MatchedRoute): string {
+        const template = route.definition.rewrite || route.definition.path;
+
+        return template
+            .split('/')
+            .filter(Boolean)
+            .map(segment => {
+                if (segment === '*') {
+                    return route.params['*'] || '';
+                }
+                if (segment.startsWith(':')) {
+                    return encodeURIComponent(route.params[segment.slice(1)] || '');
+                }
+                return segment;
+            })
+            .filter(Boolean)
+            .join('/');
+    }
+
+    /**
+     * Loads and compiles the route table from a YAML or JSON file
+     */
+    private load(routesFile: string): void {
+        if (!existsSync(routesFile)) {
+            this.logger.warn(`Route table ${routesFile} not found. No declarative routes will be served.`);
+            return;
+        }
+
+        const content = readFileSync(routesFile, 'utf8');
+        const config = (extname(routesFile) === '.json' ? JSON.parse(content) : loadYaml(content)) as RouteTableConfig;
+        const definitions = config?.routes || [];
+
+        const ids = new Set<string>();
+        this.routes = definitions.map((definition, index) => {
+            this.validate(definition, index);
+
+            if (ids.has(definition.id)) {
+                throw new Error(`Duplicate route id "${definition.id}" in ${routesFile}`);
+            }
+            ids.add(definition.id);
+
+            return this.compile({ ...definition, method: definition.method.toUpperCase() as RouteDefinition['method'] });
+        });
+
+        this.logger.log(`Loaded ${this.routes.length} route(s) from ${routesFile}`);
+    }
+
+    /**
+     * Fails fast on route definitions that can't be served
+     */
+    private validate(definition: RouteDefinition, index: number): void {
+        const label = definition?.id ? `Route "${definition.id}"` : `Route #${index}`;
+
+        if (!definition?.id) {
+            throw new Error(`${label} is missing an id`);
+        }
+        if (!definition.method || !SUPPORTED_METHODS.includes(definition.method.toUpperCase())) {
+            throw new Error(`${label} has an unsupported method: ${definition.method}`);
+        }
+        if (!definition.path || !definition.path.startsWith('/')) {
+            throw new Error(`${label} must declare a path starting with "/"`);
+        }
+        if (!definition.upstream) {
+            throw new Error(`${label} is missing an upstream`);
+        }
+        if (!definition.public && (!definition.resource || !definition.action)) {
+            throw new Error(`${label} must declare a resource and an action unless it is public`);
+        }
+        if (definition.rateLimit) {
+            const { limit, ttl, cost, scope } = definition.rateLimit;
+            if ([limit, ttl].some(value => value !== undefined && !(value > 0)) || !isValidRateLimitCost(cost)) {
+                throw new Error(`${label} has an invalid rate limit`);
+            }
+            if (scope && !RATE_LIMIT_SCOPES.includes(scope)) {
+                throw new Error(`${label} has an unsupported rate limit scope: ${scope}`);
+            }
+        }
+        if (definition.rateLimit?.algorithm && !RATE_LIMIT_ALGORITHMS.includes(definition.rateLimit.algorithm)) {
+            throw new Error(`${label} has an unsupported rate limit algorithm: ${definition.rateLimit.algorithm}`);
+        }
+        if (definition.priority && !REQUEST_PRIORITIES.includes(definition.priority)) {
+            throw new Error(`${label} has an unsupported priority: ${definition.priority}`);
+        }
+        if (definition.timeout !== undefined && !(definition.timeout > 0)) {
+            throw new Error(`${label} has an invalid timeout: ${definition.timeout}`);
+        }
+        if (definition.retry && !isValidRetryPolicy(definition.retry)) {
+            throw new Error(`${label} has an invalid retry policy`);
+        }
+        if (definition.hedge && (definition.method.toUpperCase() !== 'GET' || (definition.hedge !== true && !isValidHedgePolicy(definition.hedge)))) {
+            throw new Error(`${label} has an invalid hedge policy, only GET routes can be hedged`);
+        }
+    }
+
+    /**
+     * Compiles a route path into a regular expression, capturing :params and a trailing * wildcard
+     */
+    private compile(definition: RouteDefinition): CompiledRoute {
+        const paramNames: string[] = [];
+        const segments = definition.path.split('/').filter(Boolean).map((segment, index, all) => {
+            if (segment === '*' && index === all.length - 1) {
+                paramNames.push('*');
+                return '(.*)';
+            }
+            if (segment.startsWith(':')) {
+                paramNames.push(segment.slice(1));
+                return '([^/]+)';
+            }
+            return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        });
+
+        const pattern = new RegExp(`^/${segments.join('/')}/?$`);
+
+        // Translate the route declaration into the metadata our guards read from decorators
+        const metadata: Record<string, any> = {};
+        if (definition.public) metadata[IS_PUBLIC_KEY] = true;
+        if (definition.roles) metadata[ROLES_KEY] = definition.roles;
+        if (definition.resource) metadata[RESOURCE_KEY] = definition.resource;
+        if (definition.action) metadata[ACTION_KEY] = definition.action;
+        if (definition.rateLimit) metadata[RATE_LIMIT_KEY] = definition.rateLimit;
+        if (definition.timeout) metadata[REQUEST_TIMEOUT_KEY] = definition.timeout;
+
+        return { definition, pattern, paramNames, metadata };
+    }
+}
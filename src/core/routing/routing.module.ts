@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { RouteTableService } from './route-table.service';
+import { RouteMatchMiddleware } from './route-match.middleware';
+
+@Module({
+    providers: [RouteTableService, RouteMatchMiddleware],
+    exports: [RouteTableService, RouteMatchMiddleware],
+})
+export class RoutingModule { }
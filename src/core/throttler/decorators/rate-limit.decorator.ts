@@ -0,0 +1,26 @@
+import { applyDecorators, SetMetadata } from '@nestjs/common';
+import { ApiExtension, ApiResponse } from '@nestjs/swagger';
+import { RateLimitOptions } from '../rate-limit.interface';
+
+export const RATE_LIMIT_KEY = 'rateLimit';
+
+/**
+ * Declares the rate limit of a handler or controller, documented in Swagger
+ * @example @RateLimit({ limit: 10, ttl: 60, scope: 'tenant' })
+ * @example @RateLimit({ cost: { query: { name: 'limit', per: 20, default: 10 } } })
+ */
+export const RateLimit = (options: RateLimitOptions) => {
+    const { limit, ttl, scope, cost } = options;
+    const description = [
+        limit !== undefined ? `${limit} request(s)` : 'default limit',
+        ttl !== undefined ? `per ${ttl}s` : 'per default window',
+        `per ${scope || 'client'}`,
+        typeof cost === 'object' ? '(cost computed per request)' : cost && cost !== 1 ? `(each call costs ${cost})` : '',
+    ].filter(Boolean).join(' ');
+
+    return applyDecorators(
+        SetMetadata(RATE_LIMIT_KEY, options),
+        ApiExtension('x-rate-limit', options),
+        ApiResponse({ status: 429, description: `Rate limit exceeded: ${description}` }),
+    );
+};
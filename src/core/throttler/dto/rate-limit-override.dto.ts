@@ -0,0 +1,26 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, IsString, Min } from 'class-validator';
+
+export class RateLimitOverrideDto {
+    @ApiPropertyOptional({ description: 'Requests (or cost units) per window, replacing the declared limits' })
+    @IsInt()
+    @Min(1)
+    @IsOptional()
+    limit?: number;
+
+    @ApiPropertyOptional({ description: 'Window length in seconds' })
+    @IsInt()
+    @Min(1)
+    @IsOptional()
+    ttl?: number;
+
+    @ApiProperty({ description: 'Seconds until the override expires' })
+    @IsInt()
+    @Min(1)
+    expiresIn: number;
+
+    @ApiPropertyOptional({ description: 'Why the override was granted, e.g. a support ticket' })
+    @IsString()
+    @IsOptional()
+    reason?: string;
+}
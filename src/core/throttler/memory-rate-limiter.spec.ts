@@ -0,0 +1,48 @@
+import { MemoryRateLimiter } from './memory-rate-limiter';
+
+describe('MemoryRateLimiter', () => {
+    const now = 1_700_000_000_000;
+    let limiter: MemoryRateLimiter;
+
+    beforeEach(() => {
+        jest.useFakeTimers({ now });
+        limiter = new MemoryRateLimiter();
+    });
+
+    afterEach(() => jest.useRealTimers());
+
+    it('limits requests once the window is used up', () => {
+        expect(limiter.consume('key', 2, 60)).toMatchObject({ limited: false, current: 1, remaining: 1 });
+        expect(limiter.consume('key', 2, 60)).toMatchObject({ limited: false, current: 2, remaining: 0 });
+        expect(limiter.consume('key', 2, 60)).toMatchObject({ limited: true, current: 2, remaining: 0 });
+    });
+
+    it('does not count denied requests', () => {
+        limiter.consume('key', 5, 60, 4);
+
+        expect(limiter.consume('key', 5, 60, 2)).toMatchObject({ limited: true, current: 4 });
+        expect(limiter.consume('key', 5, 60, 1)).toMatchObject({ limited: false, current: 5 });
+    });
+
+    it('starts a new window once the previous one reset', () => {
+        limiter.consume('key', 1, 60);
+
+        expect(limiter.consume('key', 1, 60)).toMatchObject({ limited: true, resetTime: now / 1000 + 60 });
+
+        jest.advanceTimersByTime(60000);
+        expect(limiter.consume('key', 1, 60)).toMatchObject({ limited: false, current: 1, resetTime: now / 1000 + 120 });
+    });
+
+    it('limits every key separately', () => {
+        limiter.consume('a', 1, 60);
+
+        expect(limiter.consume('b', 1, 60).limited).toBe(false);
+    });
+
+    it('forgets all windows on clear', () => {
+        limiter.consume('key', 1, 60);
+        limiter.clear();
+
+        expect(limiter.consume('key', 1, 60).limited).toBe(false);
+    });
+});
@@ -0,0 +1,78 @@
+import { RateLimitResult } from './rate-limit.interface';
+
+interface MemoryWindow {
+    count: number;
+    // Epoch milliseconds at which the window resets
+    resetAt: number;
+}
+
+// Bounds memory while degraded; the oldest windows are evicted first
+const MAX_ENTRIES = 10000;
+
+/**
+ * Per-instance fixed-window limiter, used while Redis is unavailable
+ */
+export class MemoryRateLimiter {
+    private readonly windows: Map<string, MemoryWindow> = new Map();
+
+    /**
+     * Consumes capacity for a key
+     * @param key Rate limit key of the client and operation
+     * @param limit Maximum requests per window on this instance
+     * @param ttl Window length in seconds
+     * @param cost Capacity consumed by the request
+     */
+    consume(key: string, limit: number, ttl: number, cost: number = 1): RateLimitResult {
+        const now = Date.now();
+        let window = this.windows.get(key);
+
+        if (!window || window.resetAt <= now) {
+            this.windows.delete(key);
+            this.evict(now);
+            window = { count: 0, resetAt: now + ttl * 1000 };
+            this.windows.set(key, window);
+        }
+
+        // Denied requests are not counted, same as the Redis algorithms
+        const allowed = window.count + cost <= limit;
+        if (allowed) {
+            window.count += cost;
+        }
+
+        return {
+            limited: !allowed,
+            current: window.count,
+            limit,
+            remaining: Math.max(0, limit - window.count),
+            resetTime: Math.ceil(window.resetAt / 1000),
+            window: ttl,
+        };
+    }
+
+    /**
+     * Forgets all windows, e.g. once Redis is back
+     */
+    clear(): void {
+        this.windows.clear();
+    }
+
+    private evict(now: number): void {
+        if (this.windows.size < MAX_ENTRIES) {
+            return;
+        }
+
+        for (const [key, window] of this.windows) {
+            if (window.resetAt <= now) {
+                this.windows.delete(key);
+            }
+        }
+
+        // Still full: drop the oldest entries, Map iterates in insertion order
+        for (const key of this.windows.keys()) {
+            if (this.windows.size < MAX_ENTRIES) {
+                break;
+            }
+            this.windows.delete(key);
+        }
+    }
+}
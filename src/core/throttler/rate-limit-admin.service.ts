@@ -0,0 +1,200 @@
+import { Injectable } from '@nestjs/common';
+import { RedisService } from '../redis/redis.service';
+import { ValidationException } from '../exceptions';
+import { ThrottlerService } from './throttler.service';
+import {
+    RATE_LIMIT_ALGORITHMS, RATE_LIMIT_SUBJECT_TYPES, RateLimitAlgorithm, RateLimitCounter, RateLimitSubjectType
+} from './rate-limit.interface';
+
+// Reads the state of one throttler key. KEYS[1] = key; ARGV[1] = oldest score still inside a sliding log
+const READ_STATE_SCRIPT = `
+local kind = redis.call('TYPE', KEYS[1])['ok']
+if kind == 'zset' then
+    return { kind, tostring(redis.call('ZCOUNT', KEYS[1], ARGV[1], '+inf')), '' }
+end
+if kind == 'hash' then
+    local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'timestamp')
+    return { kind, bucket[1] or '', bucket[2] or '' }
+end
+if kind == 'string' then
+    return { kind, redis.call('GET', KEYS[1]), '' }
+end
+return { kind, '', '' }
+`;
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+interface ParsedThrottleKey {
+    algorithm: RateLimitAlgorithm;
+    identifier: string;
+    method: string;
+    resource?: string;
+    windowIndex?: number;
+}
+
+/**
+ * Inspects and resets the rate limit state of a client, for support and operations
+ */
+@Injectable()
+export class RateLimitAdminService {
+    constructor(
+        private readonly redisService: RedisService,
+        private readonly throttlerService: ThrottlerService,
+    ) { }
+
+    /**
+     * Current usage and remaining capacity of every rate limit of a client
+     * @param type What the id identifies
+     * @param id API key id, user id, IP address or tenant id
+     */
+    async inspect(type: RateLimitSubjectType, id: string): Promise<RateLimitCounter[]> {
+        const now = Date.now();
+        const counters: Map<string, RateLimitCounter> = new Map();
+
+        for (const key of await this.findKeys(type, id)) {
+            const parsed = this.parseKey(key);
+            if (!parsed) {
+                continue;
+            }
+
+            const { algorithm, identifier, method, resource, windowIndex } = parsed;
+            const baseKey = `api-gateway:throttle:${algorithm}:${identifier}:${method}${resource ? `:${resource}` : ''}`;
+            const { limit, ttl } = this.throttlerService.getAppliedLimit(baseKey) || {
+                limit: this.throttlerService.getLimit(method, resource),
+                ttl: this.throttlerService.getTtl(method, resource),
+            };
+            const window = ttl * 1000;
+            const currentWindow = Math.floor(now / window);
+
+            const [, value, timestamp] = await this.redisService.runScript<string[]>(READ_STATE_SCRIPT, [key], [`(${now - window}`]);
+
+            let used = 0;
+            switch (algorithm) {
+                case 'fixed-window':
+                    used = windowIndex === currentWindow ? Number(value) || 0 : 0;
+                    break;
+                case 'sliding-window-counter':
+                    // The previous window only counts for the part still overlapping the sliding window
+                    if (windowIndex === currentWindow) {
+                        used = Number(value) || 0;
+                    } else if (windowIndex === currentWindow - 1) {
+                        used = (Number(value) || 0) * (1 - (now - currentWindow * window) / window);
+                    }
+                    break;
+                case 'sliding-window-log':
+                    used = Number(value) || 0;
+                    break;
+                case 'token-bucket': {
+                    const tokens = Number(value) || 0;
+                    const refilled = Math.min(limit, tokens + Math.max(0, now - (Number(timestamp) || now)) * limit / window);
+                    used = limit - refilled;
+                    break;
+                }
+            }
+
+            const counter = counters.get(baseKey) || {
+                identifier,
+                algorithm,
+                method,
+                resource,
+                limit,
+                window: ttl,
+                used: 0,
+                remaining: limit,
+                keys: [],
+            };
+            counter.used += used;
+            counter.keys.push(key);
+            counters.set(baseKey, counter);
+        }
+
+        return [...counters.values()].map(counter => {
+            counter.used = Math.ceil(counter.used);
+            counter.remaining = Math.max(0, counter.limit - counter.used);
+            return counter;
+        });
+    }
+
+    /**
+     * Deletes the rate limit state of a client, restoring its full capacity
+     * @returns The number of deleted keys
+     */
+    async reset(type: RateLimitSubjectType, id: string): Promise<number> {
+        let deleted = 0;
+
+        for (const key of await this.findKeys(type, id)) {
+            deleted += await this.redisService.deleteKey(key);
+        }
+
+        return deleted;
+    }
+
+    /**
+     * Finds the throttler keys of a client under every identifier the guard may have used for it
+     */
+    private async findKeys(type: RateLimitSubjectType, id: string): Promise<string[]> {
+        if (!RATE_LIMIT_SUBJECT_TYPES.includes(type)) {
+            throw new ValidationException(`Unsupported type "${type}", expected one of: ${RATE_LIMIT_SUBJECT_TYPES.join(', ')}`);
+        }
+
+        const value = escapeGlob(id);
+        const identifiers = {
+            apiKey: [`api-key:${value}`],
+            // Clients without a scope are identified by their bare user id
+            user: [`user:${value}`, value],
+            ip: [`ip:${value}`, value],
+            // Tenant-level limits of resource-intensive operations are keyed by tenant name and id
+            tenant: [`tenant:${value}`, `tenant:*:${value}`],
+        }[type];
+
+        const keys: Set<string> = new Set();
+        for (const algorithm of RATE_LIMIT_ALGORITHMS) {
+            for (const identifier of identifiers) {
+                const matches = await this.redisService.scanKeys(`api-gateway:throttle:${algorithm}:${identifier}:*`);
+                matches.filter(key => this.parseKey(key)).forEach(key => keys.add(key));
+            }
+        }
+
+        return [...keys];
+    }
+
+    /**
+     * Splits api-gateway:throttle:<algorithm>:<identifier>:<method>[:<resource>][:<window index>]
+     * @returns The parts, or undefined when the key doesn't have that shape
+     */
+    private parseKey(key: string): ParsedThrottleKey | undefined {
+        const [, , algorithm, ...parts] = key.split(':');
+        if (!RATE_LIMIT_ALGORITHMS.includes(algorithm as RateLimitAlgorithm)) {
+            return undefined;
+        }
+
+        let windowIndex: number;
+        if (algorithm === 'fixed-window' || algorithm === 'sliding-window-counter') {
+            windowIndex = Number(parts.pop());
+            if (!Number.isInteger(windowIndex)) {
+                return undefined;
+            }
+        }
+
+        // The method is the last or second to last part, followed by the resource
+        let methodIndex = parts.length - 1;
+        if (!HTTP_METHODS.includes(parts[methodIndex])) {
+            methodIndex--;
+        }
+        if (methodIndex < 1 || !HTTP_METHODS.includes(parts[methodIndex])) {
+            return undefined;
+        }
+
+        return {
+            algorithm: algorithm as RateLimitAlgorithm,
+            identifier: parts.slice(0, methodIndex).join(':'),
+            method: parts[methodIndex],
+            resource: parts[methodIndex + 1],
+            windowIndex,
+        };
+    }
+}
+
+function escapeGlob(value: string): string {
+    return value.replace(/[*?[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,50 @@
+import { RateLimitCostRule, RateLimitOptions } from './rate-limit.interface';
+
+/**
+ * Resolves the cost of a request from a fixed cost or a cost rule
+ * @param cost The declared cost, defaults to 1
+ * @param request The incoming request
+ */
+export function resolveRateLimitCost(cost: RateLimitOptions['cost'], request: any): number {
+    if (cost === undefined) {
+        return 1;
+    }
+
+    if (typeof cost === 'number') {
+        return cost;
+    }
+
+    let total = cost.base ?? 1;
+
+    if (cost.query) {
+        const value = parseInt(request.query?.[cost.query.name]);
+        const amount = Number.isFinite(value) && value > 0 ? value : (cost.query.default ?? 0);
+        total += Math.ceil(amount / cost.query.per);
+    }
+
+    if (cost.perBytes) {
+        const bytes = parseInt(request.headers?.['content-length'] || '0');
+        total += Math.ceil((Number.isFinite(bytes) ? bytes : 0) / cost.perBytes);
+    }
+
+    return Math.max(1, total);
+}
+
+/**
+ * Whether a declared cost is a positive number or a cost rule with positive factors
+ */
+export function isValidRateLimitCost(cost: RateLimitOptions['cost']): boolean {
+    if (cost === undefined) {
+        return true;
+    }
+
+    if (typeof cost === 'number') {
+        return cost > 0;
+    }
+
+    const rule: RateLimitCostRule = cost;
+    return typeof rule === 'object' && rule !== null
+        && (rule.base === undefined || rule.base >= 0)
+        && (rule.query === undefined || (typeof rule.query.name === 'string' && rule.query.per > 0))
+        && (rule.perBytes === undefined || rule.perBytes > 0);
+}
@@ -0,0 +1,86 @@
+import { Body, Controller, Delete, Get, Param, Put } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiSecurity, ApiTags } from '@nestjs/swagger';
+import { Roles } from '../auth/decorators/auth.decorator';
+import { PLATFORM_ADMIN_ROLE } from '../auth/platform-admin';
+import { ResourceNotFoundException } from '../exceptions';
+import { ThrottlerService } from './throttler.service';
+import { RateLimitAdminService } from './rate-limit-admin.service';
+import { RATE_LIMIT_SUBJECT_TYPES, RateLimitCounter, RateLimitOverride, RateLimitSubjectType } from './rate-limit.interface';
+import { RateLimitOverrideDto } from './dto';
+
+/**
+ * Admin endpoints to inspect and reset rate limit state and override tenant limits.
+ * Platform admins only, a tenant admin could otherwise lift the limits of their own tenant.
+ */
+@ApiTags('Admin - Rate Limits')
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+@Roles(PLATFORM_ADMIN_ROLE)
+@Controller('admin/rate-limits')
+export class RateLimitController {
+    constructor(
+        private readonly throttlerService: ThrottlerService,
+        private readonly rateLimitAdminService: RateLimitAdminService,
+    ) { }
+
+    @Get('tenants/:tenantId/override')
+    @ApiOperation({ summary: 'Get tenant override', description: 'Returns the active limit override of a tenant' })
+    @ApiResponse({ status: 200, description: 'Override retrieved successfully' })
+    @ApiResponse({ status: 404, description: 'The tenant has no active override' })
+    async getOverride(@Param('tenantId') tenantId: string): Promise<RateLimitOverride> {
+        const override = await this.throttlerService.getTenantOverride(tenantId);
+        if (!override) {
+            throw new ResourceNotFoundException('rate-limit-override', tenantId);
+        }
+        return override;
+    }
+
+    @Put('tenants/:tenantId/override')
+    @ApiOperation({
+        summary: 'Override tenant limits',
+        description: 'Replaces the limits of every request of the tenant until the override expires. Other instances pick it up within 10 seconds.',
+    })
+    @ApiResponse({ status: 200, description: 'Override set' })
+    async setOverride(@Param('tenantId') tenantId: string, @Body() overrideDto: RateLimitOverrideDto): Promise<RateLimitOverride> {
+        const { expiresIn, ...options } = overrideDto;
+        return this.throttlerService.setTenantOverride(tenantId, options, expiresIn);
+    }
+
+    @Delete('tenants/:tenantId/override')
+    @ApiOperation({ summary: 'Remove tenant override' })
+    @ApiResponse({ status: 200, description: 'Override removed' })
+    @ApiResponse({ status: 404, description: 'The tenant has no active override' })
+    async removeOverride(@Param('tenantId') tenantId: string): Promise<{ tenantId: string; removed: boolean }> {
+        if (!(await this.throttlerService.removeTenantOverride(tenantId))) {
+            throw new ResourceNotFoundException('rate-limit-override', tenantId);
+        }
+        return { tenantId, removed: true };
+    }
+
+    @Get(':type/:id')
+    @ApiOperation({ summary: 'Inspect rate limits', description: 'Current usage and remaining capacity of every rate limit of a client' })
+    @ApiParam({ name: 'type', enum: RATE_LIMIT_SUBJECT_TYPES })
+    @ApiParam({ name: 'id', description: 'API key id, user id, IP address or tenant id' })
+    @ApiResponse({ status: 200, description: 'Rate limit state retrieved successfully' })
+    async inspect(
+        @Param('type') type: RateLimitSubjectType,
+        @Param('id') id: string,
+    ): Promise<{ type: RateLimitSubjectType; id: string; counters: RateLimitCounter[]; override?: RateLimitOverride }> {
+        const counters = await this.rateLimitAdminService.inspect(type, id);
+        const override = type === 'tenant' ? await this.throttlerService.getTenantOverride(id) : null;
+
+        return { type, id, counters, ...(override ? { override } : {}) };
+    }
+
+    @Delete(':type/:id')
+    @ApiOperation({ summary: 'Reset rate limits', description: 'Deletes the rate limit state of a client, restoring its full capacity' })
+    @ApiParam({ name: 'type', enum: RATE_LIMIT_SUBJECT_TYPES })
+    @ApiParam({ name: 'id', description: 'API key id, user id, IP address or tenant id' })
+    @ApiResponse({ status: 200, description: 'Rate limit state reset' })
+    async reset(
+        @Param('type') type: RateLimitSubjectType,
+        @Param('id') id: string,
+    ): Promise<{ type: RateLimitSubjectType; id: string; deleted: number }> {
+        return { type, id, deleted: await this.rateLimitAdminService.reset(type, id) };
+    }
+}
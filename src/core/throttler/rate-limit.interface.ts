@@ -0,0 +1,101 @@
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-window-log' | 'sliding-window-counter' | 'token-bucket';
+
+export const RATE_LIMIT_ALGORITHMS: RateLimitAlgorithm[] = [
+    'fixed-window',
+    'sliding-window-log',
+    'sliding-window-counter',
+    'token-bucket',
+];
+
+export type RateLimitScope = 'user' | 'ip' | 'apiKey' | 'tenant';
+
+/**
+ * Cost computed from the request, for calls whose backend load grows with their input
+ * @example { query: { name: 'limit', per: 20, default: 10 } } // 1 + 1 unit per 20 requested items
+ */
+export interface RateLimitCostRule {
+    /** Fixed cost of every call, defaults to 1 */
+    base?: number;
+    /** Adds one unit per `per` of a numeric query parameter, `default` when it is absent */
+    query?: { name: string; per: number; default?: number };
+    /** Adds one unit per this many request body bytes, from Content-Length */
+    perBytes?: number;
+}
+
+/**
+ * Rate limit declared on a handler or route; unset fields fall back to the throttler defaults
+ */
+export interface RateLimitOptions {
+    /** Maximum requests (or cost units) per window */
+    limit?: number;
+    /** Window length in seconds */
+    ttl?: number;
+    /** Who the limit applies to, defaults to the API key or user, then the IP */
+    scope?: RateLimitScope;
+    /** Capacity consumed by each request, fixed or computed from the request; defaults to 1 */
+    cost?: number | RateLimitCostRule;
+    algorithm?: RateLimitAlgorithm;
+}
+
+export const RATE_LIMIT_SCOPES: RateLimitScope[] = ['user', 'ip', 'apiKey', 'tenant'];
+
+/**
+ * What the throttler does while Redis is unavailable
+ */
+export type ThrottleFailureMode = 'open' | 'closed' | 'memory';
+
+export const THROTTLE_FAILURE_MODES: ThrottleFailureMode[] = ['open', 'closed', 'memory'];
+
+/**
+ * Outcome of a rate limit check
+ */
+export interface RateLimitResult {
+    limited: boolean;
+    current: number;
+    limit: number;
+    remaining: number;
+    /** Unix time (seconds) at which the next request will be allowed, or the window resets */
+    resetTime: number;
+    /** Window length in seconds */
+    window: number;
+}
+
+/**
+ * Which rate limit response headers are sent: the X-RateLimit-* set, the IETF RateLimit-Policy/RateLimit fields, or both
+ */
+export type RateLimitHeadersMode = 'legacy' | 'ietf' | 'both';
+
+export const RATE_LIMIT_HEADERS_MODES: RateLimitHeadersMode[] = ['legacy', 'ietf', 'both'];
+
+export type RateLimitSubjectType = 'apiKey' | 'user' | 'ip' | 'tenant';
+
+export const RATE_LIMIT_SUBJECT_TYPES: RateLimitSubjectType[] = ['apiKey', 'user', 'ip', 'tenant'];
+
+/**
+ * Current state of one rate limit of a client, as reported by the admin API
+ */
+export interface RateLimitCounter {
+    identifier: string;
+    algorithm: RateLimitAlgorithm;
+    method: string;
+    resource?: string;
+    limit: number;
+    /** Window length in seconds */
+    window: number;
+    used: number;
+    remaining: number;
+    /** Redis keys holding the state */
+    keys: string[];
+}
+
+/**
+ * Temporary limit granted to a tenant by an admin, replacing its declared limits until it expires
+ */
+export interface RateLimitOverride {
+    tenantId: string;
+    limit?: number;
+    ttl?: number;
+    reason?: string;
+    createdAt: string;
+    expiresAt: string;
+}
@@ -0,0 +1,123 @@
+/**
+ * Lua scripts implementing the rate limiting algorithms atomically in Redis.
+ *
+ * Every script takes the limit, the window in milliseconds, the current time in
+ * milliseconds and the cost of the request as ARGV[1..4], and returns
+ * { allowed (0|1), current usage, reset time in milliseconds }.
+ * Denied requests don't consume capacity.
+ */
+
+/**
+ * Sliding-window log: one sorted set entry per request, scored by its timestamp.
+ * KEYS[1] = log key, ARGV[5] = unique request id
+ */
+export const SLIDING_WINDOW_LOG_SCRIPT = `
+local key = KEYS[1]
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+local requestId = ARGV[5]
+
+redis.call('ZREMRANGEBYSCORE', key, '-inf', now - window)
+local current = redis.call('ZCARD', key)
+local allowed = 0
+
+if current + cost <= limit then
+    for i = 1, cost do
+        redis.call('ZADD', key, now, requestId .. ':' .. i)
+    end
+    current = current + cost
+    allowed = 1
+end
+
+if current > 0 then
+    redis.call('PEXPIRE', key, window)
+end
+
+-- Capacity frees up when the oldest entry leaves the window
+local reset = now + window
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+if oldest[2] then
+    reset = tonumber(oldest[2]) + window
+end
+
+return { allowed, current, reset }
+`;
+
+/**
+ * Sliding-window counter: the previous window's count, weighted by how much of it
+ * still overlaps the sliding window, plus the current window's count.
+ * KEYS[1] = current window counter, KEYS[2] = previous window counter, ARGV[5] = current window start (ms)
+ */
+export const SLIDING_WINDOW_COUNTER_SCRIPT = `
+local limit = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+local windowStart = tonumber(ARGV[5])
+
+local current = tonumber(redis.call('GET', KEYS[1]) or '0')
+local previous = tonumber(redis.call('GET', KEYS[2]) or '0')
+local overlap = 1 - (now - windowStart) / window
+local weighted = previous * overlap + current
+local allowed = 0
+
+if weighted + cost <= limit then
+    current = redis.call('INCRBY', KEYS[1], cost)
+    redis.call('PEXPIRE', KEYS[1], window * 2)
+    weighted = weighted + cost
+    allowed = 1
+end
+
+local reset = windowStart + window
+if allowed == 0 then
+    if current + cost <= limit and previous > 0 then
+        -- Allowed again once enough of the previous window has slid out
+        reset = windowStart + math.ceil((1 - (limit - cost - current) / previous) * window)
+    elseif current > 0 and cost <= limit then
+        -- Allowed again once enough of the current window has slid out, in the next window
+        reset = windowStart + window + math.ceil(math.max(0, 1 - (limit - cost) / current) * window)
+    end
+end
+
+return { allowed, math.ceil(weighted), reset }
+`;
+
+/**
+ * Token bucket: holds up to limit tokens, refilled continuously at limit per window.
+ * KEYS[1] = bucket hash
+ */
+export const TOKEN_BUCKET_SCRIPT = `
+local key = KEYS[1]
+local capacity = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+local rate = capacity / window
+
+local bucket = redis.call('HMGET', key, 'tokens', 'timestamp')
+local tokens = tonumber(bucket[1]) or capacity
+local timestamp = tonumber(bucket[2]) or now
+
+tokens = math.min(capacity, tokens + math.max(0, now - timestamp) * rate)
+local allowed = 0
+
+if tokens >= cost then
+    tokens = tokens - cost
+    allowed = 1
+end
+
+redis.call('HSET', key, 'tokens', tostring(tokens), 'timestamp', tostring(now))
+
+-- The bucket is full again after this long, and can then be forgotten
+local untilFull = math.ceil((capacity - tokens) / rate)
+redis.call('PEXPIRE', key, math.max(untilFull, 1000))
+
+local reset = now + untilFull
+if allowed == 0 then
+    reset = now + math.ceil((cost - tokens) / rate)
+end
+
+return { allowed, capacity - math.floor(tokens), reset }
+`;
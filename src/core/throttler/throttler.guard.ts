@@ -1,9 +1,23 @@
-import { Injectable, CanActivate, ExecutionContext, HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { Injectable, CanActivate, ExecutionContext, Logger } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
+import { createHash } from 'crypto';
 import { ThrottlerService } from './throttler.service';
 import { IS_PUBLIC_KEY } from '../auth/decorators/public.decorator';
 import { RESOURCE_KEY } from '../auth/decorators/auth.decorator';
 import { SKIP_THROTTLE_KEY } from './decorators/skip-throttle-decorator';
+import { RATE_LIMIT_KEY } from './decorators/rate-limit.decorator';
+import { RateLimitOptions, RateLimitResult, RateLimitScope } from './rate-limit.interface';
+import { resolveRouteMetadata } from '../routing/route-metadata.util';
+import { resolveRateLimitCost } from './rate-limit-cost.util';
+import { RateLimitExceededException } from '../exceptions';
+
+interface RateLimitPolicyState {
+    // Policy name in the RateLimit-Policy field, e.g. tenant, default or the @RateLimit scope
+    name: string;
+    // Prefix of the legacy headers, e.g. X-RateLimit
+    legacyPrefix: string;
+    result: RateLimitResult;
+}
 
 @Injectable()
 export class ThrottlerGuard implements CanActivate {
@@ -16,10 +30,7 @@ export class ThrottlerGuard implements CanActivate {
 
     async canActivate(context: ExecutionContext): Promise<boolean> {
         // Check if the endpoint is marked as public for rate limiting
-        const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
-            context.getHandler(),
-            context.getClass(),
-        ]);
+        const isPublic = resolveRouteMetadata<boolean>(this.reflector, IS_PUBLIC_KEY, context);
 
         if (isPublic) {
             return true;
@@ -43,22 +54,22 @@ export class ThrottlerGuard implements CanActivate {
             return true;
         }
 
-        // Get client identifier (API key, user ID or IP)
-        const headers = request.headers || {}; // Safely handle undefined headers
-        const apiKey = headers['x-api-key'] as string;
         const user = request.user;
-        // Use API key as identifier if available, otherwise use user ID or IP
-        let identifier: string = apiKey ? `api-key:${apiKey}:${(request.ip || user?.id || 'anonymous')}` : (user?.id || request.ip || 'anonymous');
-        identifier = identifier
-            .replace(/:{2,}/g, ':').replace(/:$/, '')
-            .replace(/^:/, '')
-            .replace(/(^|:)ffff($|:)/g, '$1$2')
-            .replace(/:{2,}/g, ':')
-            .replace(/^:|:$/g, '');
+        const declaredRateLimit = resolveRouteMetadata<RateLimitOptions>(this.reflector, RATE_LIMIT_KEY, context);
+        const identifier = this.resolveIdentifier(request, declaredRateLimit?.scope);
+        const cost = resolveRateLimitCost(declaredRateLimit?.cost, request);
+        const rateLimitOverride: RateLimitOptions = { ...declaredRateLimit, cost };
+
+        // Limits granted to the tenant by an admin take precedence over the declared ones
+        const tenantOverride = user?.tenantId && await this.throttlerService.getTenantOverride(user.tenantId);
+        if (tenantOverride) {
+            rateLimitOverride.limit = tenantOverride.limit ?? rateLimitOverride.limit;
+            rateLimitOverride.ttl = tenantOverride.ttl ?? rateLimitOverride.ttl;
+        }
 
         // Get HTTP method and resource type from request
         const method = request.method;
-        const resource = this.reflector.get<string>(RESOURCE_KEY, context.getHandler());
+        const resource = resolveRouteMetadata<string>(this.reflector, RESOURCE_KEY, context);
 
         // Extract source service information
         const sourceService = user?.sourceService;
@@ -73,69 +84,118 @@ export class ThrottlerGuard implements CanActivate {
         // OPTIONAL: Tenant-level rate limiting for resource-intensive operations
         // Only apply if configured via environment variable to ensure backward compatibility
         const enableTenantRateLimits = process.env.ENABLE_TENANT_RATE_LIMITS === 'true';
+        const policies: RateLimitPolicyState[] = [];
 
         if (enableTenantRateLimits && tenantName && tenantId && this.isResourceIntensiveOperation(method, resource)) {
             const tenantKey = `tenant:${tenantName}:${tenantId}`;
 
             // Check tenant-level rate limits
-            try {
-                const tenantLimit = await this.throttlerService.checkRateLimit(
-                    tenantKey,
-                    method,
-                    resource
-                );
-
-                if (tenantLimit.limited) {
-                    this.logger.warn(`Tenant rate limit exceeded for ${tenantName} (ID: ${tenantId}) on ${method} ${request.path}`);
-                    response.header('X-Tenant-RateLimit-Limit', tenantLimit.limit.toString());
-                    response.header('X-Tenant-RateLimit-Remaining', tenantLimit.remaining.toString());
-                    response.header('X-Tenant-RateLimit-Reset', tenantLimit.resetTime.toString());
-
-                    throw new HttpException(
-                        {
-                            statusCode: HttpStatus.TOO_MANY_REQUESTS,
-                            message: 'Tenant rate limit exceeded, please try again later.',
-                            error: 'Too Many Requests'
-                        },
-                        HttpStatus.TOO_MANY_REQUESTS
-                    );
-                }
-            } catch (error) {
-                if (error instanceof HttpException) {
-                    throw error;
-                }
-                // If there's an error checking tenant limits, log it but don't block the request
-                this.logger.error(`Error checking tenant rate limits: ${error.message}`);
+            const tenantLimit = await this.throttlerService.checkRateLimit(
+                tenantKey,
+                method,
+                resource,
+                rateLimitOverride
+            );
+            policies.push({ name: 'tenant', legacyPrefix: 'X-Tenant-RateLimit', result: tenantLimit });
+
+            if (tenantLimit.limited) {
+                this.logger.warn(`Tenant rate limit exceeded for ${tenantName} (ID: ${tenantId}) on ${method} ${request.path}`);
+                this.setHeaders(response, policies, cost);
+                throw new RateLimitExceededException('tenant request', tenantLimit.resetTime);
             }
         }
 
         // Regular rate limit check
-        const { limited, limit, remaining, resetTime } = await this.throttlerService.checkRateLimit(
+        const rateLimit = await this.throttlerService.checkRateLimit(
             identifier,
             method,
-            resource
+            resource,
+            rateLimitOverride
         );
+        policies.push({ name: declaredRateLimit?.scope || 'default', legacyPrefix: 'X-RateLimit', result: rateLimit });
 
-        // Add rate limit headers to the response
-        response.header('X-RateLimit-Limit', limit.toString());
-        response.header('X-RateLimit-Remaining', remaining.toString());
-        response.header('X-RateLimit-Reset', resetTime.toString());
+        this.setHeaders(response, policies, cost);
 
-        if (limited) {
+        if (rateLimit.limited) {
             this.logger.warn(`Rate limit exceeded for ${identifier} on ${method} ${request.path}`);
-            throw new HttpException(
-                {
-                    statusCode: HttpStatus.TOO_MANY_REQUESTS,
-                    message: 'Too many requests, please try again later.',
-                    error: 'Too Many Requests'
-                },
-                HttpStatus.TOO_MANY_REQUESTS
-            );
+            throw new RateLimitExceededException('request', rateLimit.resetTime);
         }
 
         return true;
     }
 
+    /**
+     * Sets the legacy X-RateLimit-* headers and/or the IETF RateLimit-Policy and RateLimit fields,
+     * e.g. RateLimit-Policy: "default";q=60;w=60 and RateLimit: "default";r=42;t=18
+     * @param policies The evaluated limits, the client limit last
+     */
+    private setHeaders(response: any, policies: RateLimitPolicyState[], cost: number): void {
+        const mode = this.throttlerService.getHeadersMode();
+        const now = Math.floor(Date.now() / 1000);
+
+        if (mode !== 'ietf') {
+            for (const { legacyPrefix, result } of policies) {
+                response.header(`${legacyPrefix}-Limit`, result.limit.toString());
+                response.header(`${legacyPrefix}-Remaining`, result.remaining.toString());
+                response.header(`${legacyPrefix}-Reset`, result.resetTime.toString());
+            }
+        }
+
+        if (mode !== 'legacy') {
+            response.header('RateLimit-Policy', policies
+                .map(({ name, result }) => `"${name}";q=${result.limit};w=${result.window}`)
+                .join(', '));
+            response.header('RateLimit', policies
+                .map(({ name, result }) => `"${name}";r=${result.remaining};t=${Math.max(0, result.resetTime - now)}`)
+                .join(', '));
+        }
+
+        response.header('X-RateLimit-Cost', cost.toString());
+    }
+
+    /**
+     * Builds the rate limit identifier for the declared scope
+     * @param request The incoming request
+     * @param scope The scope declared by @RateLimit, or undefined for the API key or user, then the IP
+     */
+    private resolveIdentifier(request: any, scope?: RateLimitScope): string {
+        const user = request.user;
+        const apiKey = request.headers?.['x-api-key'] as string;
+        const ip = (request.ip || 'anonymous').replace(/^::ffff:/, '');
+
+        switch (scope) {
+            case 'ip':
+                return `ip:${ip}`;
+            case 'user':
+                return user?.id ? `user:${user.id}` : `ip:${ip}`;
+            case 'apiKey':
+                return apiKey || user?.apiKeyId ? `api-key:${this.apiKeyId(apiKey, user)}` : `ip:${ip}`;
+            case 'tenant': {
+                const tenantId = user?.tenantId || request.headers?.['x-tenant-id'];
+                return tenantId ? `tenant:${tenantId}` : `ip:${ip}`;
+            }
+        }
+
+        // Use API key as identifier if available, otherwise use user ID or IP
+        const identifier: string = apiKey
+            ? `api-key:${this.apiKeyId(apiKey, user)}:${(request.ip || user?.id || 'anonymous')}`
+            : (user?.id || request.ip || 'anonymous');
+        return identifier
+            .replace(/:{2,}/g, ':').replace(/:$/, '')
+            .replace(/^:/, '')
+            .replace(/(^|:)ffff($|:)/g, '$1$2')
+            .replace(/:{2,}/g, ':')
+            .replace(/^:|:$/g, '');
+    }
+
+    /**
+     * Identifies an API key by its id, or a hash of it when the key isn't managed;
+     * never put raw keys in Redis key names
+     */
+    private apiKeyId(apiKey: string | undefined, user: any): string {
+        return user?.apiKeyId || createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+    }
+
     /**
      * Determines if an operation is resource-intensive and should have tenant-level rate limiting
      */
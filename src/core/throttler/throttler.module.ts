@@ -1,11 +1,15 @@
 import { Module } from '@nestjs/common';
 import { ThrottlerService } from './throttler.service';
 import { ThrottlerGuard } from './throttler.guard';
+import { RateLimitAdminService } from './rate-limit-admin.service';
+import { RateLimitController } from './rate-limit.controller';
 import { RedisModule } from '../redis/redis.module';
+import { SharedServicesModule } from '../../services/shared/services/shared-services.module';
 
 @Module({
-    imports: [RedisModule],
-    providers: [ThrottlerService, ThrottlerGuard],
-    exports: [ThrottlerService, ThrottlerGuard],
+    imports: [RedisModule, SharedServicesModule],
+    controllers: [RateLimitController],
+    providers: [ThrottlerService, ThrottlerGuard, RateLimitAdminService],
+    exports: [ThrottlerService, ThrottlerGuard, RateLimitAdminService],
 })
 export class ThrottlerModule { }
\ No newline at end of file
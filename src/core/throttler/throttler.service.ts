@@ -1,34 +1,71 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
 import { RedisService } from '../redis/redis.service';
+import { TelemetryService } from '../../services/shared/services/telemetry.service';
+import {
+    RATE_LIMIT_ALGORITHMS, RATE_LIMIT_HEADERS_MODES, THROTTLE_FAILURE_MODES,
+    RateLimitAlgorithm, RateLimitHeadersMode, RateLimitOptions, RateLimitOverride, RateLimitResult, ThrottleFailureMode
+} from './rate-limit.interface';
+import { SLIDING_WINDOW_COUNTER_SCRIPT, SLIDING_WINDOW_LOG_SCRIPT, TOKEN_BUCKET_SCRIPT } from './rate-limit.scripts';
+import { MemoryRateLimiter } from './memory-rate-limiter';
 
-interface RateLimitResult {
-    limited: boolean;
-    current: number;
-    limit: number;
-    remaining: number;
-    resetTime: number;
-}
+// How long tenant overrides are cached per instance, so they don't cost a Redis round trip per request
+const OVERRIDE_CACHE_MS = 10000;
+
+// Bounds the limits remembered for the admin API; the oldest are forgotten first
+const MAX_APPLIED_LIMITS = 5000;
 
 @Injectable()
-export class ThrottlerService {
+export class ThrottlerService implements OnApplicationBootstrap {
     private readonly logger = new Logger(ThrottlerService.name);
     private readonly defaultTtl: number;
     private readonly defaultLimit: number;
+    private readonly defaultAlgorithm: RateLimitAlgorithm;
+    private readonly failureMode: ThrottleFailureMode;
+    private readonly instanceCount: number;
+    private readonly headersMode: RateLimitHeadersMode;
+    private readonly memoryLimiter = new MemoryRateLimiter();
+    // Whether Redis is currently unavailable and the failure mode applies
+    private degraded = false;
+    // Limit and window last applied per rate limit key, which the keys themselves don't record
+    private readonly appliedLimits: Map<string, { limit: number; ttl: number }> = new Map();
+    private readonly overrideCache: Map<string, { override: RateLimitOverride | null; fetchedAt: number }> = new Map();
 
-    // Special limits for different endpoints or methods
+    // Default limits by method and resource, for handlers and routes without @RateLimit
     private readonly limitMap: Record<string, number> = {};
     private readonly ttlMap: Record<string, number> = {};
 
     constructor(
         private readonly redisService: RedisService,
         private readonly configService: ConfigService,
+        private readonly telemetryService: TelemetryService,
     ) {
         // Get configuration from environment or use reasonable defaults
         // Default TTL in seconds and request limit count
         this.defaultTtl = parseInt(this.configService.get<string>('THROTTLE_TTL') || '60');
         this.defaultLimit = parseInt(this.configService.get<string>('THROTTLE_LIMIT') || '60');
 
+        const algorithm = this.configService.get<string>('THROTTLE_ALGORITHM') as RateLimitAlgorithm;
+        if (algorithm && !RATE_LIMIT_ALGORITHMS.includes(algorithm)) {
+            this.logger.warn(`Unknown THROTTLE_ALGORITHM "${algorithm}", using sliding-window-counter`);
+        }
+        this.defaultAlgorithm = RATE_LIMIT_ALGORITHMS.includes(algorithm) ? algorithm : 'sliding-window-counter';
+
+        const failureMode = this.configService.get<string>('THROTTLE_FAILURE_MODE') as ThrottleFailureMode;
+        if (failureMode && !THROTTLE_FAILURE_MODES.includes(failureMode)) {
+            this.logger.warn(`Unknown THROTTLE_FAILURE_MODE "${failureMode}", using memory`);
+        }
+        this.failureMode = THROTTLE_FAILURE_MODES.includes(failureMode) ? failureMode : 'memory';
+        // Each instance only sees its own traffic while degraded, so it gets its share of the limit
+        this.instanceCount = Math.max(1, parseInt(this.configService.get<string>('THROTTLE_INSTANCE_COUNT') || '1'));
+
+        const headersMode = this.configService.get<string>('RATE_LIMIT_HEADERS') as RateLimitHeadersMode;
+        if (headersMode && !RATE_LIMIT_HEADERS_MODES.includes(headersMode)) {
+            this.logger.warn(`Unknown RATE_LIMIT_HEADERS "${headersMode}", using both`);
+        }
+        this.headersMode = RATE_LIMIT_HEADERS_MODES.includes(headersMode) ? headersMode : 'both';
+
         // Configure specific rate limits by operation
         this.limitMap = {
             // Example rate limits for different operations
@@ -80,74 +117,251 @@ export class ThrottlerService {
         };
     }
 
+    onApplicationBootstrap(): void {
+        // Don't hold up startup, the sweep may take a while on a large keyspace
+        this.repairKeysWithoutTtl();
+    }
+
+    /**
+     * Repairs throttler keys left without a TTL, which would otherwise block their client forever
+     * @returns The number of repaired keys
+     */
+    async repairKeysWithoutTtl(): Promise<number> {
+        // Longest state lifetime of any algorithm is two windows (sliding-window counter)
+        const ttl = Math.max(this.defaultTtl, ...Object.values(this.ttlMap)) * 2;
+
+        try {
+            const repaired = await this.redisService.expireKeysWithoutTtl('api-gateway:throttle:*', ttl);
+            if (repaired > 0) {
+                this.logger.warn(`Repaired ${repaired} throttler key(s) without a TTL`);
+            }
+            return repaired;
+        } catch (error) {
+            this.logger.error(`Error repairing throttler keys: ${error.message}`);
+            return 0;
+        }
+    }
+
     /**
      * Checks if a request should be rate limited
      * @param key The key to use for rate limiting (usually user ID or IP address)
      * @param method The HTTP method being used
      * @param resource The resource being accessed
+     * @param override Optional limit declared by the handler or route, taking precedence over the maps
      * @returns Object with rate limit info
      */
-    async checkRateLimit(key: string, method: string, resource?: string): Promise<RateLimitResult> {
-        // Determine the appropriate limit and TTL
-        let limit = this.defaultLimit;
-        let ttl = this.defaultTtl;
+    async checkRateLimit(key: string, method: string, resource?: string, override?: RateLimitOptions): Promise<RateLimitResult> {
+        // Declared limits take precedence, the maps only provide defaults
+        const limit = override?.limit ?? this.getLimit(method, resource);
+        const ttl = override?.ttl ?? this.getTtl(method, resource);
+        // Cost rules are resolved per request by the guard; a call never costs more than the whole budget
+        const cost = Math.min(typeof override?.cost === 'number' ? override.cost : 1, limit);
+        const algorithm = override?.algorithm || this.defaultAlgorithm;
 
-        // Check for specific method + resource limits
-        if (resource && this.limitMap[`${method}:${resource}`]) {
-            limit = this.limitMap[`${method}:${resource}`];
-            ttl = this.ttlMap[`${method}:${resource}`] || this.defaultTtl;
+        const redisKey = this.generateKey(algorithm, key, method, resource);
+        this.rememberAppliedLimit(redisKey, limit, ttl);
+
+        // Commands are queued rather than rejected while disconnected, don't wait for them
+        if (this.redisService.isReady()) {
+            try {
+                const result = await this.applyAlgorithm(algorithm, redisKey, limit, ttl, cost);
+                this.setDegraded(false);
+                return result;
+            } catch (error) {
+                this.logger.error(`Error checking rate limit: ${error.message}`);
+            }
         }
-        // Check for method-specific limits
-        else if (this.limitMap[method]) {
-            limit = this.limitMap[method];
-            ttl = this.ttlMap[method] || this.defaultTtl;
+
+        this.setDegraded(true);
+        return this.applyFailureMode(redisKey, limit, ttl, cost);
+    }
+
+    /**
+     * Limits a request according to THROTTLE_FAILURE_MODE while Redis is unavailable
+     */
+    private applyFailureMode(redisKey: string, limit: number, ttl: number, cost: number): RateLimitResult {
+        const resetTime = Math.ceil(Date.now() / 1000) + ttl;
+
+        switch (this.failureMode) {
+            case 'open':
+                return { limited: false, current: 0, limit, remaining: limit, resetTime, window: ttl };
+            case 'closed':
+                return { limited: true, current: limit, limit, remaining: 0, resetTime, window: ttl };
+            default:
+                return this.memoryLimiter.consume(redisKey, Math.max(1, Math.floor(limit / this.instanceCount)), ttl, cost);
         }
+    }
 
-        try {
-            // Generate Redis key
-            const redisKey = this.generateKey(key, method, resource, ttl);
+    /**
+     * Records a switch between Redis and the failure mode
+     */
+    private setDegraded(degraded: boolean): void {
+        if (degraded === this.degraded) {
+            return;
+        }
+        this.degraded = degraded;
 
-            // Increment counter in Redis and retrieve current value
-            const current = await this.redisService.incrementByThrottler(redisKey, 1, ttl);
+        if (degraded) {
+            this.logger.warn(`Redis unavailable, rate limiting switched to fail-${this.failureMode} mode`);
+        } else {
+            this.logger.log(`Redis available again, rate limiting switched back from fail-${this.failureMode} mode`);
+            this.memoryLimiter.clear();
+        }
 
-            // Calculate time when limit resets
-            const resetTime = Math.ceil(Date.now() / 1000) + ttl;
+        this.telemetryService.recordMetric('throttle_failure_mode', degraded ? 1 : 0, {
+            mode: degraded ? this.failureMode : 'redis',
+        });
+    }
 
-            // Calculate remaining requests
-            const remaining = Math.max(0, limit - current);
+    /**
+     * Consumes capacity with the given algorithm
+     * @param algorithm The rate limiting algorithm
+     * @param redisKey Base Redis key of the client and operation
+     * @param limit Maximum requests per window
+     * @param ttl Window length in seconds
+     * @param cost Capacity consumed by the request
+     */
+    private async applyAlgorithm(algorithm: RateLimitAlgorithm, redisKey: string, limit: number, ttl: number, cost: number = 1): Promise<RateLimitResult> {
+        const now = Date.now();
+        const window = ttl * 1000;
+        const windowIndex = Math.floor(now / window);
+        const args = [limit, window, now, cost];
 
-            return {
-                limited: current > limit,
-                current,
-                limit,
-                remaining,
-                resetTime
-            };
-        } catch (error) {
-            this.logger.error(`Error checking rate limit: ${error.message}`);
-            // Fail open in case of Redis errors
-            return {
-                limited: false,
-                current: 0,
-                limit,
-                remaining: limit,
-                resetTime: Math.ceil(Date.now() / 1000) + ttl
-            };
+        let allowed: number;
+        let current: number;
+        let reset: number;
+
+        switch (algorithm) {
+            case 'sliding-window-log':
+                [allowed, current, reset] = await this.redisService.runScript<number[]>(
+                    SLIDING_WINDOW_LOG_SCRIPT,
+                    [redisKey],
+                    [...args, `${now}-${randomBytes(4).toString('hex')}`]
+                );
+                break;
+            case 'sliding-window-counter':
+                [allowed, current, reset] = await this.redisService.runScript<number[]>(
+                    SLIDING_WINDOW_COUNTER_SCRIPT,
+                    [`${redisKey}:${windowIndex}`, `${redisKey}:${windowIndex - 1}`],
+                    [...args, windowIndex * window]
+                );
+                break;
+            case 'token-bucket':
+                [allowed, current, reset] = await this.redisService.runScript<number[]>(
+                    TOKEN_BUCKET_SCRIPT,
+                    [redisKey],
+                    args
+                );
+                break;
+            default:
+                // Fixed window: every request counts, the window resets at its boundary
+                current = await this.redisService.incrementWithExpiry(`${redisKey}:${windowIndex}`, cost, ttl);
+                allowed = current <= limit ? 1 : 0;
+                reset = (windowIndex + 1) * window;
         }
+
+        return {
+            limited: allowed !== 1,
+            current,
+            limit,
+            remaining: Math.max(0, limit - current),
+            resetTime: Math.ceil(reset / 1000),
+            window: ttl
+        };
     }
 
     /**
      * Generates a Redis key for rate limiting
+     * @param algorithm The rate limiting algorithm, so switching algorithms never reads foreign state
      * @param identifier User ID or IP address
      * @param method HTTP method
      * @param resource Optional resource being accessed
-     * @param ttl Time-to-live in seconds
      * @returns Generated key
      */
-    private generateKey(identifier: string, method: string, resource?: string, ttl?: number): string {
+    private generateKey(algorithm: RateLimitAlgorithm, identifier: string, method: string, resource?: string): string {
         const resourcePart = resource ? `:${resource}` : '';
-        const period = ttl ? Math.floor(Date.now() / (ttl * 1000)) : Math.floor(Date.now() / (this.defaultTtl * 1000));
-        return `api-gateway:${identifier}:${method}${resourcePart}:${period}`;
+        return `api-gateway:throttle:${algorithm}:${identifier}:${method}${resourcePart}`;
+    }
+
+    /**
+     * Limit and window last applied to a rate limit key by this instance
+     */
+    getAppliedLimit(redisKey: string): { limit: number; ttl: number } | undefined {
+        return this.appliedLimits.get(redisKey);
+    }
+
+    private rememberAppliedLimit(redisKey: string, limit: number, ttl: number): void {
+        // Re-insert so the Map stays ordered from least to most recently used
+        this.appliedLimits.delete(redisKey);
+        this.appliedLimits.set(redisKey, { limit, ttl });
+
+        if (this.appliedLimits.size > MAX_APPLIED_LIMITS) {
+            this.appliedLimits.delete(this.appliedLimits.keys().next().value);
+        }
+    }
+
+    /**
+     * Gets the active limit override of a tenant
+     * @returns The override, or null when the tenant has none
+     */
+    async getTenantOverride(tenantId: string): Promise<RateLimitOverride | null> {
+        const cached = this.overrideCache.get(tenantId);
+        if (cached && Date.now() - cached.fetchedAt < OVERRIDE_CACHE_MS) {
+            return cached.override;
+        }
+
+        let override: RateLimitOverride | null = null;
+        try {
+            const value = await this.redisService.getValue(this.overrideKey(tenantId));
+            override = value ? JSON.parse(value) : null;
+        } catch (error) {
+            this.logger.error(`Error reading rate limit override of tenant ${tenantId}: ${error.message}`);
+            return cached?.override ?? null;
+        }
+
+        this.overrideCache.set(tenantId, { override, fetchedAt: Date.now() });
+        return override;
+    }
+
+    /**
+     * Replaces the limits of a tenant until the override expires
+     * @param expiresIn Lifetime of the override in seconds
+     */
+    async setTenantOverride(tenantId: string, options: Pick<RateLimitOverride, 'limit' | 'ttl' | 'reason'>, expiresIn: number): Promise<RateLimitOverride> {
+        const now = Date.now();
+        const override: RateLimitOverride = {
+            tenantId,
+            ...options,
+            createdAt: new Date(now).toISOString(),
+            expiresAt: new Date(now + expiresIn * 1000).toISOString(),
+        };
+
+        await this.redisService.setValue(this.overrideKey(tenantId), JSON.stringify(override), expiresIn);
+        this.overrideCache.delete(tenantId);
+        this.logger.warn(`Rate limit override set for tenant ${tenantId} until ${override.expiresAt}`);
+
+        return override;
+    }
+
+    /**
+     * Removes the limit override of a tenant
+     * @returns Whether the tenant had an override
+     */
+    async removeTenantOverride(tenantId: string): Promise<boolean> {
+        const deleted = await this.redisService.deleteKey(this.overrideKey(tenantId));
+        this.overrideCache.delete(tenantId);
+        return deleted > 0;
+    }
+
+    private overrideKey(tenantId: string): string {
+        return `api-gateway:rate-limit-override:tenant:${tenantId}`;
+    }
+
+    /**
+     * Which rate limit headers responses carry
+     */
+    getHeadersMode(): RateLimitHeadersMode {
+        return this.headersMode;
     }
 
     /**
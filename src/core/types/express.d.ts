@@ -1,4 +1,5 @@
 import { Request } from 'express';
+import { MatchedRoute } from '../routing/route-definition.interface';
 
 declare global {
     namespace Express {
@@ -9,6 +10,7 @@ declare global {
                 tenantName?: string;
                 [key: string]: any;
             };
+            gatewayRoute?: MatchedRoute;
         }
     }
 }
\ No newline at end of file
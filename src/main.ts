@@ -10,7 +10,8 @@ import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
  */
 export async function bootstrap(): Promise<void> {
   const logger = new Logger('Bootstrap');
-  const app = await NestFactory.create(AppModule);
+  // Bodies are parsed by BodyParserMiddleware, after load shedding
+  const app = await NestFactory.create(AppModule, { bodyParser: false });
 
   app.useGlobalPipes(new ValidationPipe({
     whitelist: true,
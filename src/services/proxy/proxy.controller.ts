@@ -0,0 +1,33 @@
+import { All, Controller, Req, Res } from '@nestjs/common';
+import { ApiExcludeController } from '@nestjs/swagger';
+import { Request, Response } from 'express';
+import { ProxyService } from './proxy.service';
+import { GATEWAY_ROUTE_PREFIX } from '../../core/routing/route-table.service';
+import { ResourceNotFoundException } from '../../core/exceptions';
+
+/**
+ * Generic controller serving every route declared in the route table
+ */
+@ApiExcludeController()
+@Controller(GATEWAY_ROUTE_PREFIX)
+export class ProxyController {
+  constructor(private readonly proxyService: ProxyService) {}
+
+  /**
+   * Forward any request under the gateway prefix to its declared upstream
+   */
+  @All('*')
+  async proxy(
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response
+  ) {
+    if (!request.gatewayRoute) {
+      throw new ResourceNotFoundException('route', `${request.method} ${request.path}`);
+    }
+
+    const { status, data } = await this.proxyService.forward(request);
+    response.status(status);
+
+    return data;
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+import { ConfigModule } from '@nestjs/config';
+import { ProxyController } from './proxy.controller';
+import { ProxyService } from './proxy.service';
+import { CoreModule } from '../../core/core.module';
+import { SharedServicesModule } from '../shared/services/shared-services.module';
+
+@Module({
+  imports: [
+    HttpModule,
+    ConfigModule,
+    CoreModule,
+    SharedServicesModule
+  ],
+  controllers: [ProxyController],
+  providers: [ProxyService],
+})
+export class ProxyModule { }
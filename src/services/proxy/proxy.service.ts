@@ -0,0 +1,54 @@
+import { Injectable } from '@nestjs/common';
+import { Request } from 'express';
+import { RouteTableService } from '../../core/routing/route-table.service';
+import { CacheService } from '../shared/services/cache.service';
+import { UpstreamResponse } from '../shared/services/upstream-client';
+import { UpstreamClientFactory } from '../shared/services/upstream-client.factory';
+
+/**
+ * Forwards requests matched by the declarative route table to their upstream
+ */
+@Injectable()
+export class ProxyService {
+  constructor(
+    private readonly routeTableService: RouteTableService,
+    private readonly cacheService: CacheService,
+    private readonly upstreamClientFactory: UpstreamClientFactory,
+  ) {}
+
+  /**
+   * Forward a request to the upstream declared by its matched route
+   * @param request - The incoming request, already matched by RouteMatchMiddleware
+   * @returns The upstream status and standardized response body
+   */
+  async forward(request: Request): Promise<UpstreamResponse> {
+    const route = request.gatewayRoute;
+    const { definition } = route;
+    const upstream = this.upstreamClientFactory.getClient(definition.upstream);
+
+    const tenantId = request.user?.tenantId || request.headers['x-tenant-id'] as string;
+    const path = this.routeTableService.buildUpstreamPath(route);
+    const query = request.query as Record<string, string>;
+    // Lets the upstream deduplicate, and the gateway retry, non-idempotent requests
+    const idempotencyKey = request.headers['idempotency-key'] as string;
+
+    const execute = () => upstream.send(definition.method, path, {
+      operation: definition.id,
+      tenantId,
+      query,
+      data: ['GET', 'DELETE'].includes(definition.method) ? undefined : request.body,
+      requestId: request.headers['x-request-id'] as string,
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+      resourceType: definition.resource,
+      retry: definition.retry,
+      hedge: definition.hedge,
+    });
+
+    if (definition.method === 'GET' && definition.cacheTtl) {
+      const cacheKey = this.cacheService.createCacheKey('proxy', tenantId || 'global', definition.id, request.originalUrl);
+      return this.cacheService.getOrSet(cacheKey, execute, definition.cacheTtl);
+    }
+
+    return execute();
+  }
+}
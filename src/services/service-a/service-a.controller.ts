@@ -17,6 +17,7 @@ import { PaginationDto, QueryFilterDto } from '../shared/dto';
 import { ApiStandardResponse, AuditLog, TenantId, MeasurePerformance } from '../shared/decorators';
 import { UuidValidationPipe, TrimPipe } from '../shared/pipes';
 import { SkipThrottle } from '../../core/throttler/decorators/skip-throttle-decorator';
+import { RateLimit } from '../../core/throttler/decorators/rate-limit.decorator';
 
 /**
  * Controller for Service A endpoints
@@ -34,6 +35,7 @@ export class ServiceAController {
   @Action('read')
   @Roles('admin', 'user')
   @UseGuards(ThrottlerGuard, JwtAuthGuard, RolesGuard)
+  @RateLimit({ cost: { query: { name: 'limit', per: 20, default: 10 } } })
   @ApiOperation({ summary: 'Get all items', description: 'Retrieves all items for the tenant' })
   @ApiStandardResponse({ 
     status: 200, 
@@ -182,6 +184,7 @@ export class ServiceAController {
   @Action('read')
   @Roles('admin')
   @UseGuards(ThrottlerGuard, JwtAuthGuard, RolesGuard)
+  @RateLimit({ cost: 5 })
   @ApiOperation({ summary: 'Get item statistics', description: 'Retrieves item statistics for the tenant' })
   @ApiStandardResponse({ 
     status: 200, 
@@ -20,6 +20,7 @@ import { ApiStandardResponse, AuditLog, TenantId, MeasurePerformance } from '../
 import { UuidValidationPipe, TrimPipe } from '../shared/pipes';
 import { SkipThrottle } from '../../core/throttler/decorators/skip-throttle-decorator';
 import { Public } from '../../core/auth/decorators/public.decorator';
+import { RateLimit } from '../../core/throttler/decorators/rate-limit.decorator';
 
 /**
  * Controller for Service B endpoints (Reports & Notifications)
@@ -49,6 +50,7 @@ export class ServiceBController {
   @Action('create')
   @Roles('admin', 'user')
   @UseGuards(ThrottlerGuard, JwtAuthGuard, RolesGuard)
+  @RateLimit({ cost: 10 })
   @ApiOperation({ summary: 'Generate report', description: 'Generate a new report based on criteria' })
   @ApiStandardResponse({ 
     status: 202, 
@@ -0,0 +1,24 @@
+import { Injectable } from '@nestjs/common';
+import { Request } from 'express';
+import { AbacContext, AbacResourceLoader } from '../../core/auth/abac';
+import { UuidValidationPipe } from '../shared/pipes';
+import { ServiceCService } from './service-c.service';
+
+/**
+ * Loads the metadata of the file targeted by a request, for ABAC conditions
+ */
+@Injectable()
+export class FileMetadataLoader implements AbacResourceLoader {
+  private readonly uuidValidationPipe = new UuidValidationPipe();
+
+  constructor(private readonly serviceCService: ServiceCService) {}
+
+  async load(request: Request, { user, params }: AbacContext) {
+    // Guards run before parameter pipes, the id must not reach the upstream path unchecked
+    const fileId = this.uuidValidationPipe.transform(params.id, { type: 'param', data: 'id' });
+    const tenantId = user.tenantId || request.headers['x-tenant-id'] as string;
+    const { data } = await this.serviceCService.getFileMetadata(tenantId, fileId);
+
+    return data;
+  }
+}
@@ -10,7 +10,7 @@ import {
 } from '@nestjs/swagger';
 import { Express, Response } from 'express';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { ServiceCService } from './service-c.service';
+import { ServiceCService, UPLOAD_TIMEOUT_MS } from './service-c.service';
 import { Action, Resource, Roles } from '../../core/auth/decorators/auth.decorator';
 import { ThrottlerGuard } from '../../core/throttler/throttler.guard';
 import { JwtAuthGuard } from '../../core/auth/guards/jwt-auth.guard';
@@ -24,6 +24,11 @@ import { ApiStandardResponse, AuditLog, TenantId, MeasurePerformance } from '../
 import { UuidValidationPipe, TrimPipe } from '../shared/pipes';
 import { Public } from '../../core/auth/decorators/public.decorator';
 import { FileTooLargeException } from '../../core/exceptions/validation-exceptions';
+import { Conditions, LoadResource, anyOf, hasRole, ownerMatches } from '../../core/auth/abac';
+import { FileMetadataLoader } from './file-metadata.loader';
+import { RateLimit } from '../../core/throttler/decorators/rate-limit.decorator';
+import { QuotaMetrics } from '../../core/quota/decorators/quota-metric.decorator';
+import { RequestTimeout } from '../../core/deadline/decorators/request-timeout.decorator';
 
 /**
  * Controller for Service C endpoints (File & Folder Management)
@@ -52,6 +57,9 @@ export class ServiceCController {
   @Resource('file')
   @Action('create')
   @Roles('admin', 'user')
+  @RateLimit({ limit: 10, ttl: 60 })
+  @QuotaMetrics('upload-bytes')
+  @RequestTimeout(UPLOAD_TIMEOUT_MS)
   @UseGuards(ThrottlerGuard, JwtAuthGuard, RolesGuard)
   @ApiOperation({ summary: 'Upload file', description: 'Upload a new file' })
   @ApiConsumes('multipart/form-data')
@@ -159,8 +167,11 @@ export class ServiceCController {
   @Resource('file')
   @Action('update')
   @Roles('admin', 'user')
+  @RateLimit({ limit: 15, ttl: 60 })
+  @Conditions(anyOf(hasRole('admin'), ownerMatches('uploadedBy')))
+  @LoadResource(FileMetadataLoader)
   @UseGuards(ThrottlerGuard, JwtAuthGuard, RolesGuard)
-  @ApiOperation({ summary: 'Update file metadata', description: 'Update file metadata by ID' })
+  @ApiOperation({ summary: 'Update file metadata', description: 'Update file metadata by ID, restricted to its uploader and admins' })
   @ApiResponse({ 
     status: 200, 
     description: 'File metadata updated successfully',
@@ -3,6 +3,7 @@ import { HttpModule } from '@nestjs/axios';
 import { ConfigModule } from '@nestjs/config';
 import { ServiceCController } from './service-c.controller';
 import { ServiceCService } from './service-c.service';
+import { FileMetadataLoader } from './file-metadata.loader';
 import { CoreModule } from '../../core/core.module';
 import { SharedServicesModule } from '../shared/services/shared-services.module';
 import { MulterModule } from '@nestjs/platform-express';
@@ -55,7 +56,7 @@ if (!existsSync(uploadsDir)) {
     }),
   ],
   controllers: [ServiceCController],
-  providers: [ServiceCService],
+  providers: [ServiceCService, FileMetadataLoader],
   exports: [ServiceCService],
 })
 export class ServiceCModule { }
\ No newline at end of file
@@ -19,6 +19,8 @@ export * from './pipes/parse-boolean.pipe';
 export * from './services/cache.service';
 export * from './services/telemetry.service';
 export * from './services/circuit-breaker.service';
+export * from './services/upstream-client';
+export * from './services/upstream-client.factory';
 export * from './services/shared-services.module';
 
 // Utils
@@ -0,0 +1,71 @@
+import { GatewayTimeoutException, ServiceUnavailableException } from '../../../core/exceptions';
+import { Bulkhead } from './bulkhead';
+
+describe('Bulkhead', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('hands out free sockets without waiting', async () => {
+    const bulkhead = new Bulkhead('service-a', { maxSockets: 2, maxQueue: 0 });
+
+    await bulkhead.acquire(1000);
+    await bulkhead.acquire(1000);
+
+    expect(bulkhead.getState()).toEqual({ active: 2, queued: 0 });
+    expect(bulkhead.tryAcquire()).toBeUndefined();
+  });
+
+  it('rejects calls when the queue is full', async () => {
+    const bulkhead = new Bulkhead('service-a', { maxSockets: 1, maxQueue: 0 });
+    await bulkhead.acquire(1000);
+
+    await expect(bulkhead.acquire(1000)).rejects.toBeInstanceOf(ServiceUnavailableException);
+  });
+
+  it('hands a released socket over to the next waiting call', async () => {
+    const bulkhead = new Bulkhead('service-a', { maxSockets: 1, maxQueue: 1 });
+    const release = await bulkhead.acquire(1000);
+    const waiting = bulkhead.acquire(1000);
+
+    expect(bulkhead.getState()).toEqual({ active: 1, queued: 1 });
+
+    release();
+    const next = await waiting;
+    expect(bulkhead.getState()).toEqual({ active: 1, queued: 0 });
+
+    next();
+    expect(bulkhead.getState()).toEqual({ active: 0, queued: 0 });
+  });
+
+  it('times out calls waiting too long', async () => {
+    const bulkhead = new Bulkhead('service-a', { maxSockets: 1, maxQueue: 1 });
+    await bulkhead.acquire(1000);
+    const waiting = bulkhead.acquire(500);
+
+    jest.advanceTimersByTime(500);
+
+    await expect(waiting).rejects.toBeInstanceOf(GatewayTimeoutException);
+    expect(bulkhead.getState()).toEqual({ active: 1, queued: 0 });
+  });
+
+  it('ignores repeated releases', async () => {
+    const bulkhead = new Bulkhead('service-a', { maxSockets: 2, maxQueue: 0 });
+    const release = await bulkhead.acquire(1000);
+    await bulkhead.acquire(1000);
+
+    release();
+    release();
+
+    expect(bulkhead.getState()).toEqual({ active: 1, queued: 0 });
+  });
+
+  it('reports every change of state', async () => {
+    const onChange = jest.fn();
+    const bulkhead = new Bulkhead('service-a', { maxSockets: 1, maxQueue: 1 }, onChange);
+
+    const release = await bulkhead.acquire(1000);
+    release();
+
+    expect(onChange.mock.calls).toEqual([[{ active: 1, queued: 0 }], [{ active: 0, queued: 0 }]]);
+  });
+});
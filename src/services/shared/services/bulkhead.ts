@@ -0,0 +1,108 @@
+import { GatewayTimeoutException, ServiceUnavailableException } from '../../../core/exceptions';
+
+export interface BulkheadOptions {
+  // Sockets of the upstream's connection pool, i.e. calls in flight at once
+  maxSockets: number;
+  // Calls allowed to wait for a socket; further calls are rejected
+  maxQueue: number;
+}
+
+export interface BulkheadState {
+  active: number;
+  queued: number;
+}
+
+interface Waiter {
+  resolve: (release: () => void) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Bounds the calls in flight to one upstream and the calls waiting for them,
+ * so a slow upstream can't take the capacity of the others
+ */
+export class Bulkhead {
+  private active = 0;
+  private readonly queue: Waiter[] = [];
+
+  constructor(
+    private readonly label: string,
+    private readonly options: BulkheadOptions,
+    // Called whenever the number of active or queued calls changes
+    private readonly onChange: (state: BulkheadState) => void = () => {},
+  ) {}
+
+  /**
+   * Waits for a free socket
+   * @param timeout - Longest wait (ms)
+   * @returns A function giving the socket back
+   * @throws ServiceUnavailableException when the queue is full, GatewayTimeoutException when the wait times out
+   */
+  acquire(timeout: number): Promise<() => void> {
+    const release = this.tryAcquire();
+    if (release) {
+      return Promise.resolve(release);
+    }
+
+    if (this.queue.length >= this.options.maxQueue) {
+      return Promise.reject(new ServiceUnavailableException(this.label));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        timer: setTimeout(() => {
+          this.queue.splice(this.queue.indexOf(waiter), 1);
+          this.notify();
+          reject(new GatewayTimeoutException());
+        }, timeout),
+      };
+
+      this.queue.push(waiter);
+      this.notify();
+    });
+  }
+
+  /**
+   * Takes a free socket without waiting
+   * @returns A function giving the socket back, or undefined when every socket is busy
+   */
+  tryAcquire(): (() => void) | undefined {
+    if (this.active >= this.options.maxSockets) {
+      return undefined;
+    }
+
+    this.active++;
+    this.notify();
+    return this.createRelease();
+  }
+
+  getState(): BulkheadState {
+    return { active: this.active, queued: this.queue.length };
+  }
+
+  private createRelease(): () => void {
+    let released = false;
+
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+
+      // Hand the socket over to the next waiting call
+      const next = this.queue.shift();
+      if (next) {
+        clearTimeout(next.timer);
+        next.resolve(this.createRelease());
+      } else {
+        this.active--;
+      }
+      this.notify();
+    };
+  }
+
+  private notify(): void {
+    this.onChange(this.getState());
+  }
+}
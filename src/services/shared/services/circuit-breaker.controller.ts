@@ -0,0 +1,68 @@
+import { Controller, Get, HttpCode, HttpStatus, Param, Post } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiSecurity, ApiTags } from '@nestjs/swagger';
+import { Roles } from '../../../core/auth/decorators/auth.decorator';
+import { PLATFORM_ADMIN_ROLE } from '../../../core/auth/platform-admin';
+import { CircuitBreakerService } from './circuit-breaker.service';
+import { CircuitStatus } from './circuit-state.store';
+
+/**
+ * Admin endpoints to inspect circuits and take control of them during incidents.
+ * Circuits are shared by every tenant, so only platform admins may change their state.
+ */
+@ApiTags('Admin - Circuits')
+@ApiBearerAuth()
+@ApiSecurity('api-key')
+@Roles('admin')
+@Controller('admin/circuits')
+export class CircuitBreakerController {
+  constructor(private readonly circuitBreakerService: CircuitBreakerService) { }
+
+  @Get()
+  @ApiOperation({ summary: 'List circuits', description: 'State, sliding window counts and last error of every upstream circuit' })
+  @ApiResponse({ status: 200, description: 'Circuits retrieved successfully' })
+  async list(): Promise<CircuitStatus[]> {
+    return this.circuitBreakerService.listCircuits();
+  }
+
+  @Get(':name')
+  @ApiOperation({ summary: 'Get circuit' })
+  @ApiParam({ name: 'name', description: 'Upstream name, e.g. service-b' })
+  @ApiResponse({ status: 200, description: 'Circuit retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Circuit not found' })
+  async get(@Param('name') name: string): Promise<CircuitStatus> {
+    return this.circuitBreakerService.getCircuitStatus(name);
+  }
+
+  @Post(':name/open')
+  @Roles(PLATFORM_ADMIN_ROLE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Force open', description: 'Rejects every call to the upstream until the circuit is reset' })
+  @ApiParam({ name: 'name', description: 'Upstream name, e.g. service-b' })
+  @ApiResponse({ status: 200, description: 'Circuit forced open' })
+  @ApiResponse({ status: 404, description: 'Circuit not found' })
+  async forceOpen(@Param('name') name: string): Promise<CircuitStatus> {
+    return this.circuitBreakerService.forceOpen(name);
+  }
+
+  @Post(':name/close')
+  @Roles(PLATFORM_ADMIN_ROLE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Force close', description: 'Lets every call to the upstream through, whatever its failure rate, until the circuit is reset' })
+  @ApiParam({ name: 'name', description: 'Upstream name, e.g. service-b' })
+  @ApiResponse({ status: 200, description: 'Circuit forced closed' })
+  @ApiResponse({ status: 404, description: 'Circuit not found' })
+  async forceClose(@Param('name') name: string): Promise<CircuitStatus> {
+    return this.circuitBreakerService.forceClose(name);
+  }
+
+  @Post(':name/reset')
+  @Roles(PLATFORM_ADMIN_ROLE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reset circuit', description: 'Closes the circuit with an empty sliding window, ending a forced state' })
+  @ApiParam({ name: 'name', description: 'Upstream name, e.g. service-b' })
+  @ApiResponse({ status: 200, description: 'Circuit reset' })
+  @ApiResponse({ status: 404, description: 'Circuit not found' })
+  async reset(@Param('name') name: string): Promise<CircuitStatus> {
+    return this.circuitBreakerService.reset(name);
+  }
+}
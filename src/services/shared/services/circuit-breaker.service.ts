@@ -1,29 +1,75 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { ServiceUnavailableException } from '../../../core/exceptions';
+import { HttpException, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ResourceNotFoundException, ServiceUnavailableException } from '../../../core/exceptions';
+import { RedisService } from '../../../core/redis/redis.service';
+import { CircuitOptions, CircuitSnapshot, CircuitState, CircuitStatus, RedisCircuitStore } from './circuit-state.store';
+import { CIRCUIT_WINDOW_TYPES, CircuitWindow, CircuitWindowType } from './circuit-window';
+import { TelemetryService } from './telemetry.service';
 
-enum CircuitState {
-  CLOSED,
-  OPEN,
-  HALF_OPEN
-}
+/**
+ * `memory` keeps circuit state per process, `redis` shares it between gateway instances
+ */
+export type CircuitBreakerMode = 'memory' | 'redis';
 
-interface CircuitOptions {
-  failureThreshold: number;
-  resetTimeout: number;
-  halfOpenAttempts: number;
+/**
+ * Default failure predicate: upstream 5xx responses, timeouts and connection errors count,
+ * client errors such as 400 or 404 show the upstream is healthy
+ */
+export function isUpstreamFailure(error: any): boolean {
+  return !(error instanceof HttpException) || error.getStatus() >= 500;
 }
 
 @Injectable()
-export class CircuitBreakerService {
+export class CircuitBreakerService implements OnModuleInit {
   private readonly logger = new Logger(CircuitBreakerService.name);
   private circuits: Map<string, CircuitBreaker> = new Map();
+  private readonly mode: CircuitBreakerMode;
+  private readonly store?: RedisCircuitStore;
+  private readonly defaults: CircuitOptions;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly telemetryService: TelemetryService,
+    redisService: RedisService,
+  ) {
+    const mode = this.configService.get<string>('CIRCUIT_BREAKER_MODE') || 'memory';
+    if (mode !== 'memory' && mode !== 'redis') {
+      throw new Error(`Invalid CIRCUIT_BREAKER_MODE "${mode}", expected memory or redis`);
+    }
+
+    this.mode = mode;
+    if (this.mode === 'redis') {
+      this.store = new RedisCircuitStore(redisService);
+    }
+
+    this.defaults = this.loadDefaults();
+  }
+
+  async onModuleInit(): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    // Circuits opened or closed by other instances take effect here without waiting for a request
+    try {
+      await this.store.subscribe((name, snapshot) => this.circuits.get(name)?.apply(snapshot));
+      this.logger.log('Circuit breaker state is shared through Redis');
+    } catch (error) {
+      this.logger.error(`Failed to subscribe to circuit events: ${error.message}`);
+    }
+  }
 
   /**
    * Get or create a circuit breaker for a service
    */
   getCircuit(serviceName: string, options?: Partial<CircuitOptions>): CircuitBreaker {
     if (!this.circuits.has(serviceName)) {
-      const circuit = new CircuitBreaker(serviceName, options);
+      const circuit = new CircuitBreaker(
+        serviceName,
+        { ...this.defaults, ...options },
+        (from, to) => this.telemetryService.recordMetric('circuit_state_transition', 1, { circuit: serviceName, from, to }),
+        this.store
+      );
       this.circuits.set(serviceName, circuit);
     }
     
@@ -41,27 +87,101 @@ export class CircuitBreakerService {
     const circuit = this.getCircuit(serviceName, options);
     return await circuit.execute(fn);
   }
+
+  /**
+   * State of every circuit of this instance
+   */
+  async listCircuits(): Promise<CircuitStatus[]> {
+    return Promise.all([...this.circuits.values()].map(circuit => circuit.getStatus()));
+  }
+
+  async getCircuitStatus(serviceName: string): Promise<CircuitStatus> {
+    return this.findCircuit(serviceName).getStatus();
+  }
+
+  /**
+   * Rejects every call to the service until the circuit is reset
+   */
+  async forceOpen(serviceName: string): Promise<CircuitStatus> {
+    return this.setState(serviceName, CircuitState.FORCED_OPEN);
+  }
+
+  /**
+   * Lets every call to the service through until the circuit is reset
+   */
+  async forceClose(serviceName: string): Promise<CircuitStatus> {
+    return this.setState(serviceName, CircuitState.FORCED_CLOSED);
+  }
+
+  /**
+   * Closes the circuit with an empty sliding window, ending a forced state
+   */
+  async reset(serviceName: string): Promise<CircuitStatus> {
+    return this.setState(serviceName, CircuitState.CLOSED);
+  }
+
+  private async setState(serviceName: string, state: CircuitState): Promise<CircuitStatus> {
+    const circuit = this.findCircuit(serviceName);
+    await circuit.setState(state);
+    return circuit.getStatus();
+  }
+
+  private findCircuit(serviceName: string): CircuitBreaker {
+    const circuit = this.circuits.get(serviceName);
+    if (!circuit) {
+      throw new ResourceNotFoundException('circuit', serviceName);
+    }
+    return circuit;
+  }
+
+  /**
+   * Default circuit options from the CIRCUIT_BREAKER_* settings
+   */
+  private loadDefaults(): CircuitOptions {
+    const positive = (name: string, fallback: number): number => {
+      const value = Number(this.configService.get<string>(name) ?? fallback);
+      if (!(value > 0)) {
+        throw new Error(`Invalid ${name} "${this.configService.get<string>(name)}", expected a positive number`);
+      }
+      return value;
+    };
+
+    const windowType = (this.configService.get<string>('CIRCUIT_BREAKER_WINDOW_TYPE') || 'count') as CircuitWindowType;
+    if (!CIRCUIT_WINDOW_TYPES.includes(windowType)) {
+      throw new Error(`Invalid CIRCUIT_BREAKER_WINDOW_TYPE "${windowType}", expected count or time`);
+    }
+
+    return {
+      windowType,
+      // 20 calls or 60 seconds
+      windowSize: positive('CIRCUIT_BREAKER_WINDOW_SIZE', windowType === 'count' ? 20 : 60),
+      minimumCalls: positive('CIRCUIT_BREAKER_MINIMUM_CALLS', 10),
+      failureRateThreshold: positive('CIRCUIT_BREAKER_FAILURE_RATE', 50),
+      slowCallRateThreshold: positive('CIRCUIT_BREAKER_SLOW_CALL_RATE', 100),
+      slowCallDuration: positive('CIRCUIT_BREAKER_SLOW_CALL_MS', 5000),
+      resetTimeout: positive('CIRCUIT_BREAKER_RESET_TIMEOUT_MS', 30000),
+      halfOpenAttempts: positive('CIRCUIT_BREAKER_HALF_OPEN_CALLS', 2),
+      isFailure: isUpstreamFailure,
+    };
+  }
 }
 
 class CircuitBreaker {
   private state: CircuitState = CircuitState.CLOSED;
-  private failureCount: number = 0;
   private lastError: Error | null = null;
+  private lastErrorAt: number = 0;
   private nextAttempt: number = 0;
   private halfOpenSuccesses: number = 0;
+  private readonly window: CircuitWindow;
   private readonly logger = new Logger('CircuitBreaker');
-  
-  private readonly options: CircuitOptions = {
-    failureThreshold: 3,
-    resetTimeout: 30000, // 30 seconds
-    halfOpenAttempts: 2,
-  };
 
   constructor(
     private readonly serviceName: string,
-    options?: Partial<CircuitOptions>
+    private readonly options: CircuitOptions,
+    private readonly onTransition: (from: CircuitState, to: CircuitState) => void,
+    private readonly store?: RedisCircuitStore
   ) {
-    Object.assign(this.options, options);
+    this.window = new CircuitWindow(options.windowType, options.windowSize);
     this.logger.log(`Circuit breaker created for service: ${serviceName}`);
   }
 
@@ -69,27 +189,86 @@ class CircuitBreaker {
    * Execute a function with circuit breaker protection
    */
   async execute<T>(fn: () => Promise<T>): Promise<T> {
-    this.checkState();
-    
+    await this.checkState();
+
+    const startedAt = Date.now();
+    let result: T;
     try {
-      const result = await fn();
-      this.onSuccess();
-      return result;
+      result = await fn();
     } catch (error) {
-      this.onFailure(error);
+      await this.onCallComplete(startedAt, error);
       throw error;
     }
+
+    await this.onCallComplete(startedAt);
+    return result;
   }
 
-  private checkState(): void {
+  /**
+   * Applies state shared by another instance
+   */
+  apply(snapshot: CircuitSnapshot): void {
+    if (snapshot.state !== this.state) {
+      this.logger.log(`Circuit for ${this.serviceName} transitioned from ${this.state} to ${snapshot.state}`);
+    }
+
+    this.transition(snapshot.state);
+    this.nextAttempt = snapshot.nextAttempt;
+    this.halfOpenSuccesses = snapshot.halfOpenSuccesses;
+  }
+
+  async getStatus(): Promise<CircuitStatus> {
+    const { calls, failures, slowCalls } = (await this.sync(store => store.read(this.serviceName))) || this.window.stats();
+
+    return {
+      name: this.serviceName,
+      state: this.state,
+      calls,
+      failures,
+      slowCalls,
+      failureRate: calls > 0 ? failures * 100 / calls : 0,
+      slowCallRate: calls > 0 ? slowCalls * 100 / calls : 0,
+      halfOpenSuccesses: this.halfOpenSuccesses,
+      ...(this.state === CircuitState.OPEN ? { nextAttemptAt: new Date(this.nextAttempt).toISOString() } : {}),
+      ...(this.lastError ? { lastError: { message: this.lastError.message, at: new Date(this.lastErrorAt).toISOString() } } : {}),
+    };
+  }
+
+  /**
+   * Forces a state, or resets the circuit when the state is CLOSED
+   */
+  async setState(state: CircuitState): Promise<void> {
+    this.logger.warn(`Circuit for ${this.serviceName} set to ${state} by an admin`);
+
+    if (state === CircuitState.CLOSED) {
+      this.lastError = null;
+    }
+
+    if (!(await this.sync(store => store.setState(this.serviceName, state)))) {
+      this.transition(state);
+      this.nextAttempt = 0;
+      this.halfOpenSuccesses = 0;
+      this.window.clear();
+    }
+  }
+
+  private async checkState(): Promise<void> {
     const now = Date.now();
     
     if (this.state === CircuitState.OPEN && now >= this.nextAttempt) {
-      this.logger.log(`Circuit for ${this.serviceName} transitioning from OPEN to HALF_OPEN`);
-      this.state = CircuitState.HALF_OPEN;
-      this.halfOpenSuccesses = 0;
+      // Only one instance moves the shared circuit to HALF_OPEN, the others pick up its state
+      if (!(await this.sync(store => store.tryHalfOpen(this.serviceName)))) {
+        this.logger.log(`Circuit for ${this.serviceName} transitioning from OPEN to HALF_OPEN`);
+        this.transition(CircuitState.HALF_OPEN);
+        this.halfOpenSuccesses = 0;
+      }
     }
     
+    if (this.state === CircuitState.FORCED_OPEN) {
+      this.logger.warn(`Circuit for ${this.serviceName} is forced OPEN`);
+      throw new ServiceUnavailableException(this.serviceName);
+    }
+
     if (this.state === CircuitState.OPEN) {
       const timeLeft = Math.ceil((this.nextAttempt - now) / 1000);
       this.logger.warn(`Circuit for ${this.serviceName} is OPEN. Retry in ${timeLeft}s`);
@@ -97,8 +276,29 @@ class CircuitBreaker {
     }
   }
 
-  private onSuccess(): void {
+  /**
+   * Records the outcome of a call. Errors rejected by the failure predicate count as successful calls.
+   */
+  private async onCallComplete(startedAt: number, error?: any): Promise<void> {
+    const failed = error !== undefined && this.options.isFailure(error);
+    const slow = Date.now() - startedAt >= this.options.slowCallDuration;
+
+    if (failed) {
+      this.lastError = error;
+      this.lastErrorAt = Date.now();
+    }
+
+    if (await this.sync(store => store.recordCall(this.serviceName, failed, slow, this.options))) {
+      return;
+    }
+
     if (this.state === CircuitState.HALF_OPEN) {
+      if (failed || slow) {
+        this.logger.warn(`Circuit for ${this.serviceName} had a ${failed ? 'failed' : 'slow'} call in HALF_OPEN state. Transitioning to OPEN`);
+        this.trip();
+        return;
+      }
+
       this.halfOpenSuccesses++;
       
       if (this.halfOpenSuccesses >= this.options.halfOpenAttempts) {
@@ -106,36 +306,63 @@ class CircuitBreaker {
         this.reset();
       }
     } else if (this.state === CircuitState.CLOSED) {
-      this.failureCount = 0;
-    }
-  }
+      this.window.record(failed, slow);
 
-  private onFailure(error: Error): void {
-    this.lastError = error;
-    
-    if (this.state === CircuitState.HALF_OPEN) {
-      this.logger.warn(`Circuit for ${this.serviceName} failed in HALF_OPEN state. Transitioning to OPEN`);
-      this.trip();
-    } else if (this.state === CircuitState.CLOSED) {
-      this.failureCount++;
-      
-      if (this.failureCount >= this.options.failureThreshold) {
-        this.logger.warn(`Circuit for ${this.serviceName} failure threshold reached. Transitioning to OPEN`);
+      const { calls, failures, slowCalls } = this.window.stats();
+      if (calls < this.options.minimumCalls) {
+        return;
+      }
+
+      const failureRate = failures * 100 / calls;
+      const slowCallRate = slowCalls * 100 / calls;
+      if (failureRate >= this.options.failureRateThreshold || slowCallRate >= this.options.slowCallRateThreshold) {
+        this.logger.warn(
+          `Circuit for ${this.serviceName} reached a failure rate of ${failureRate.toFixed(1)}% and a slow call rate of ` +
+          `${slowCallRate.toFixed(1)}% over ${calls} calls. Transitioning to OPEN`
+        );
         this.trip();
       }
     }
   }
 
+  /**
+   * Runs a transition against the shared state and applies the result.
+   * Returns null in memory mode, or when Redis is disconnected, fails or is too slow to answer,
+   * so the caller applies it to the local window.
+   */
+  private async sync(transition: (store: RedisCircuitStore) => Promise<CircuitSnapshot>): Promise<CircuitSnapshot | null> {
+    if (!this.store?.isAvailable()) {
+      return null;
+    }
+
+    try {
+      const snapshot = await transition(this.store);
+      this.apply(snapshot);
+      return snapshot;
+    } catch (error) {
+      this.logger.error(`Failed to sync circuit for ${this.serviceName} with Redis: ${error.message}`);
+      return null;
+    }
+  }
+
+  private transition(state: CircuitState): void {
+    if (state !== this.state) {
+      this.onTransition(this.state, state);
+      this.state = state;
+    }
+  }
+
   private trip(): void {
-    this.state = CircuitState.OPEN;
+    this.transition(CircuitState.OPEN);
     this.nextAttempt = Date.now() + this.options.resetTimeout;
+    this.window.clear();
   }
 
   private reset(): void {
-    this.state = CircuitState.CLOSED;
-    this.failureCount = 0;
+    this.transition(CircuitState.CLOSED);
     this.lastError = null;
     this.nextAttempt = 0;
     this.halfOpenSuccesses = 0;
+    this.window.clear();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,266 @@
+import { Logger } from '@nestjs/common';
+import { RedisService } from '../../../core/redis/redis.service';
+import { CircuitWindowStats, CircuitWindowType } from './circuit-window';
+
+export enum CircuitState {
+  CLOSED = 'CLOSED',
+  OPEN = 'OPEN',
+  HALF_OPEN = 'HALF_OPEN',
+  // Set by an admin: rejects every call, or lets every call through, until the circuit is reset
+  FORCED_OPEN = 'FORCED_OPEN',
+  FORCED_CLOSED = 'FORCED_CLOSED'
+}
+
+export interface CircuitOptions {
+  // count: the window holds the last windowSize calls, time: the calls of the last windowSize seconds
+  windowType: CircuitWindowType;
+  windowSize: number;
+  // Calls needed in the window before the failure and slow call rates are evaluated
+  minimumCalls: number;
+  // Percentage of failed calls in the window that opens the circuit
+  failureRateThreshold: number;
+  // Percentage of slow calls in the window that opens the circuit
+  slowCallRateThreshold: number;
+  // Calls taking at least this long are slow (ms)
+  slowCallDuration: number;
+  resetTimeout: number;
+  // Successful trial calls needed to close the circuit from HALF_OPEN
+  halfOpenAttempts: number;
+  // Decides which errors count as failures; other errors count as successful calls
+  isFailure: (error: any) => boolean;
+}
+
+/**
+ * Shared state of a circuit
+ */
+export interface CircuitSnapshot extends CircuitWindowStats {
+  state: CircuitState;
+  nextAttempt: number;
+  halfOpenSuccesses: number;
+}
+
+/**
+ * State of a circuit as reported by the admin endpoints
+ */
+export interface CircuitStatus extends CircuitWindowStats {
+  name: string;
+  state: CircuitState;
+  // Percentages of the calls in the sliding window
+  failureRate: number;
+  slowCallRate: number;
+  halfOpenSuccesses: number;
+  // When an OPEN circuit lets trial calls through
+  nextAttemptAt?: string;
+  // Last failure seen by this instance
+  lastError?: { message: string; at: string };
+}
+
+export const CIRCUIT_EVENTS_CHANNEL = 'api-gateway:circuit-events';
+
+// Every upstream call waits for a script, past this the circuit falls back to local state
+const SCRIPT_TIMEOUT_MS = 200;
+
+// Every script reads the circuit, applies its transition, saves it and publishes
+// state changes. KEYS[1] = circuit, KEYS[2] = sliding window;
+// ARGV[1] = channel, ARGV[2] = circuit name, ARGV[3] = now (ms)
+const READ_CIRCUIT = `
+local circuit = redis.call('HMGET', KEYS[1], 'state', 'nextAttempt', 'halfOpenSuccesses', 'calls', 'failures', 'slowCalls')
+local state = circuit[1] or 'CLOSED'
+local nextAttempt = tonumber(circuit[2] or '0')
+local halfOpenSuccesses = tonumber(circuit[3] or '0')
+local calls = tonumber(circuit[4] or '0')
+local failures = tonumber(circuit[5] or '0')
+local slowCalls = tonumber(circuit[6] or '0')
+local previous = state
+local now = tonumber(ARGV[3])
+`;
+
+const SAVE_CIRCUIT = `
+if state ~= previous then
+    -- Every state starts with an empty window
+    redis.call('DEL', KEYS[2])
+    calls, failures, slowCalls = 0, 0, 0
+end
+redis.call('HSET', KEYS[1], 'state', state, 'nextAttempt', nextAttempt, 'halfOpenSuccesses', halfOpenSuccesses,
+    'calls', calls, 'failures', failures, 'slowCalls', slowCalls)
+redis.call('PEXPIRE', KEYS[1], 86400000)
+if state ~= previous then
+    redis.call('PUBLISH', ARGV[1], cjson.encode({
+        name = ARGV[2], state = state, nextAttempt = nextAttempt, halfOpenSuccesses = halfOpenSuccesses,
+        calls = calls, failures = failures, slowCalls = slowCalls
+    }))
+end
+return { state, nextAttempt, halfOpenSuccesses, calls, failures, slowCalls }
+`;
+
+// ARGV[4] = failed (0/1), ARGV[5] = slow (0/1), ARGV[6] = window type, ARGV[7] = window size,
+// ARGV[8] = minimum calls, ARGV[9] = failure rate threshold, ARGV[10] = slow call rate threshold,
+// ARGV[11] = reset timeout (ms), ARGV[12] = successes needed to close from HALF_OPEN
+const RECORD_CALL_SCRIPT = READ_CIRCUIT + `
+local failed = ARGV[4] == '1'
+local slow = ARGV[5] == '1'
+if state == 'HALF_OPEN' then
+    if failed or slow then
+        state = 'OPEN'
+        nextAttempt = now + tonumber(ARGV[11])
+        halfOpenSuccesses = 0
+    else
+        halfOpenSuccesses = halfOpenSuccesses + 1
+        if halfOpenSuccesses >= tonumber(ARGV[12]) then
+            state = 'CLOSED'
+            nextAttempt = 0
+            halfOpenSuccesses = 0
+        end
+    end
+elseif state == 'CLOSED' then
+    local size = tonumber(ARGV[7])
+    calls, failures, slowCalls = 0, 0, 0
+    if ARGV[6] == 'count' then
+        -- Outcome bits: 1 = failed, 2 = slow
+        redis.call('LPUSH', KEYS[2], (failed and 1 or 0) + (slow and 2 or 0))
+        redis.call('LTRIM', KEYS[2], 0, size - 1)
+        for _, outcome in ipairs(redis.call('LRANGE', KEYS[2], 0, -1)) do
+            outcome = tonumber(outcome)
+            calls = calls + 1
+            failures = failures + outcome % 2
+            slowCalls = slowCalls + math.floor(outcome / 2)
+        end
+    else
+        -- One bucket per second: <second>:c (calls), <second>:f (failures), <second>:s (slow calls)
+        local second = math.floor(now / 1000)
+        redis.call('HINCRBY', KEYS[2], second .. ':c', 1)
+        if failed then redis.call('HINCRBY', KEYS[2], second .. ':f', 1) end
+        if slow then redis.call('HINCRBY', KEYS[2], second .. ':s', 1) end
+        local buckets = redis.call('HGETALL', KEYS[2])
+        for i = 1, #buckets, 2 do
+            local bucket, kind = string.match(buckets[i], '(%d+):(%a)')
+            local count = tonumber(buckets[i + 1])
+            if tonumber(bucket) <= second - size then
+                redis.call('HDEL', KEYS[2], buckets[i])
+            elseif kind == 'c' then
+                calls = calls + count
+            elseif kind == 'f' then
+                failures = failures + count
+            else
+                slowCalls = slowCalls + count
+            end
+        end
+    end
+    redis.call('PEXPIRE', KEYS[2], 86400000)
+    if calls >= tonumber(ARGV[8]) and (failures * 100 >= tonumber(ARGV[9]) * calls or slowCalls * 100 >= tonumber(ARGV[10]) * calls) then
+        state = 'OPEN'
+        nextAttempt = now + tonumber(ARGV[11])
+    end
+end
+` + SAVE_CIRCUIT;
+
+const HALF_OPEN_SCRIPT = READ_CIRCUIT + `
+if state == 'OPEN' and now >= nextAttempt then
+    state = 'HALF_OPEN'
+    halfOpenSuccesses = 0
+end
+` + SAVE_CIRCUIT;
+
+// ARGV[4] = the new state; the circuit starts over with an empty window
+const SET_STATE_SCRIPT = READ_CIRCUIT + `
+state = ARGV[4]
+nextAttempt = 0
+halfOpenSuccesses = 0
+calls, failures, slowCalls = 0, 0, 0
+redis.call('DEL', KEYS[2])
+` + SAVE_CIRCUIT;
+
+const READ_SCRIPT = READ_CIRCUIT + `
+return { state, nextAttempt, halfOpenSuccesses, calls, failures, slowCalls }
+`;
+
+/**
+ * Keeps circuit state in Redis so every gateway instance fills the same sliding
+ * window and opens, probes and closes a circuit together
+ */
+export class RedisCircuitStore {
+  private readonly logger = new Logger(RedisCircuitStore.name);
+
+  constructor(private readonly redisService: RedisService) {}
+
+  /**
+   * Records the outcome of a call and evaluates the failure and slow call rates
+   */
+  recordCall(name: string, failed: boolean, slow: boolean, options: CircuitOptions): Promise<CircuitSnapshot> {
+    return this.run(RECORD_CALL_SCRIPT, name, [
+      failed ? 1 : 0,
+      slow ? 1 : 0,
+      options.windowType,
+      options.windowSize,
+      options.minimumCalls,
+      options.failureRateThreshold,
+      options.slowCallRateThreshold,
+      options.resetTimeout,
+      options.halfOpenAttempts,
+    ]);
+  }
+
+  /**
+   * Moves an OPEN circuit whose reset timeout has passed to HALF_OPEN
+   */
+  tryHalfOpen(name: string): Promise<CircuitSnapshot> {
+    return this.run(HALF_OPEN_SCRIPT, name, []);
+  }
+
+  /**
+   * Forces a state, or resets the circuit when the state is CLOSED
+   */
+  setState(name: string, state: CircuitState): Promise<CircuitSnapshot> {
+    return this.run(SET_STATE_SCRIPT, name, [state]);
+  }
+
+  read(name: string): Promise<CircuitSnapshot> {
+    return this.run(READ_SCRIPT, name, []);
+  }
+
+  /**
+   * Whether Redis accepts commands; while disconnected they would be queued rather than rejected
+   */
+  isAvailable(): boolean {
+    return this.redisService.isReady();
+  }
+
+  /**
+   * Calls the listener with every state change made by any instance
+   */
+  async subscribe(listener: (name: string, snapshot: CircuitSnapshot) => void): Promise<void> {
+    await this.redisService.subscribe(CIRCUIT_EVENTS_CHANNEL, message => {
+      try {
+        const { name, ...snapshot } = JSON.parse(message);
+        listener(name, snapshot);
+      } catch (error) {
+        this.logger.error(`Invalid circuit event: ${error.message}`);
+      }
+    });
+  }
+
+  /**
+   * @throws Error when the script doesn't complete within SCRIPT_TIMEOUT_MS
+   */
+  private async run(script: string, name: string, args: (string | number)[]): Promise<CircuitSnapshot> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Circuit script timed out after ${SCRIPT_TIMEOUT_MS}ms`)), SCRIPT_TIMEOUT_MS);
+    });
+
+    try {
+      const [state, nextAttempt, halfOpenSuccesses, calls, failures, slowCalls] = await Promise.race([
+        this.redisService.runScript<[string, ...number[]]>(
+          script,
+          [`api-gateway:circuit:${name}`, `api-gateway:circuit:${name}:window`],
+          [CIRCUIT_EVENTS_CHANNEL, name, Date.now(), ...args]
+        ),
+        timeout,
+      ]);
+
+      return { state: state as CircuitState, nextAttempt, halfOpenSuccesses, calls, failures, slowCalls };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
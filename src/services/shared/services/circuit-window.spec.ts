@@ -0,0 +1,61 @@
+import { CircuitWindow } from './circuit-window';
+
+describe('CircuitWindow', () => {
+  const now = 1_700_000_000_000;
+
+  describe('count', () => {
+    it('aggregates the outcomes of the recorded calls', () => {
+      const window = new CircuitWindow('count', 5);
+      window.record(false, false);
+      window.record(true, false);
+      window.record(false, true);
+
+      expect(window.stats()).toEqual({ calls: 3, failures: 1, slowCalls: 1 });
+    });
+
+    it('only keeps the last calls', () => {
+      const window = new CircuitWindow('count', 3);
+      window.record(true, true);
+      window.record(false, false);
+      window.record(false, false);
+      window.record(false, false);
+
+      expect(window.stats()).toEqual({ calls: 3, failures: 0, slowCalls: 0 });
+    });
+  });
+
+  describe('time', () => {
+    it('aggregates the calls of the last seconds', () => {
+      const window = new CircuitWindow('time', 10);
+      window.record(true, false, now);
+      window.record(false, true, now + 1000);
+      window.record(false, false, now + 1000);
+
+      expect(window.stats(now + 1000)).toEqual({ calls: 3, failures: 1, slowCalls: 1 });
+    });
+
+    it('drops the calls older than the window', () => {
+      const window = new CircuitWindow('time', 10);
+      window.record(true, false, now);
+      window.record(false, false, now + 5000);
+
+      expect(window.stats(now + 10000)).toEqual({ calls: 1, failures: 0, slowCalls: 0 });
+    });
+
+    it('resets a bucket reused for a later second', () => {
+      const window = new CircuitWindow('time', 2);
+      window.record(true, true, now);
+      window.record(false, false, now + 2000);
+
+      expect(window.stats(now + 2000)).toEqual({ calls: 1, failures: 0, slowCalls: 0 });
+    });
+  });
+
+  it('forgets every call on clear', () => {
+    const window = new CircuitWindow('count', 3);
+    window.record(true, false);
+    window.clear();
+
+    expect(window.stats()).toEqual({ calls: 0, failures: 0, slowCalls: 0 });
+  });
+});
@@ -0,0 +1,73 @@
+export type CircuitWindowType = 'count' | 'time';
+
+export const CIRCUIT_WINDOW_TYPES: CircuitWindowType[] = ['count', 'time'];
+
+/**
+ * Outcomes of the calls currently in a sliding window
+ */
+export interface CircuitWindowStats {
+  calls: number;
+  failures: number;
+  slowCalls: number;
+}
+
+interface Bucket extends CircuitWindowStats {
+  // Epoch second of a time-based bucket
+  second: number;
+}
+
+/**
+ * In-memory sliding window over the last `size` calls (count) or the last `size` seconds (time).
+ * Time-based windows aggregate calls in one bucket per second.
+ */
+export class CircuitWindow {
+  private buckets: Bucket[];
+  private next = 0;
+
+  constructor(
+    private readonly type: CircuitWindowType,
+    private readonly size: number,
+  ) {
+    this.clear();
+  }
+
+  record(failed: boolean, slow: boolean, now: number = Date.now()): void {
+    let bucket: Bucket;
+
+    if (this.type === 'count') {
+      bucket = this.buckets[this.next];
+      this.next = (this.next + 1) % this.size;
+      Object.assign(bucket, { calls: 0, failures: 0, slowCalls: 0 });
+    } else {
+      const second = Math.floor(now / 1000);
+      bucket = this.buckets[second % this.size];
+      if (bucket.second !== second) {
+        Object.assign(bucket, { second, calls: 0, failures: 0, slowCalls: 0 });
+      }
+    }
+
+    bucket.calls++;
+    bucket.failures += failed ? 1 : 0;
+    bucket.slowCalls += slow ? 1 : 0;
+  }
+
+  stats(now: number = Date.now()): CircuitWindowStats {
+    const oldest = Math.floor(now / 1000) - this.size;
+
+    return this.buckets
+      .filter(bucket => this.type === 'count' || bucket.second > oldest)
+      .reduce(
+        (total, bucket) => ({
+          calls: total.calls + bucket.calls,
+          failures: total.failures + bucket.failures,
+          slowCalls: total.slowCalls + bucket.slowCalls,
+        }),
+        { calls: 0, failures: 0, slowCalls: 0 }
+      );
+  }
+
+  clear(): void {
+    this.buckets = Array.from({ length: this.size }, () => ({ second: 0, calls: 0, failures: 0, slowCalls: 0 }));
+    this.next = 0;
+  }
+}
@@ -0,0 +1,28 @@
+import { Method } from 'axios';
+
+export interface HedgePolicy {
+  // Hedge once the call has been running longer than this percentile of the upstream's observed latency
+  percentile?: number;
+  // Fixed delay before the hedged request (ms), also used until enough latencies are observed
+  delay?: number;
+}
+
+export const DEFAULT_HEDGE_PERCENTILE = 90;
+export const DEFAULT_HEDGE_DELAY = 100;
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Only safe methods are hedged: the upstream may receive the request twice
+ */
+export function isHedgeSafe(method: Method): boolean {
+  return SAFE_METHODS.includes(method.toUpperCase());
+}
+
+/**
+ * Fails fast on hedge policies that can't be applied
+ */
+export function isValidHedgePolicy(policy: HedgePolicy): boolean {
+  return (policy.percentile === undefined || (policy.percentile > 0 && policy.percentile < 100))
+    && (policy.delay === undefined || policy.delay >= 0);
+}
@@ -1,4 +1,11 @@
 export * from './cache.service';
 export * from './telemetry.service';
 export * from './circuit-breaker.service';
+export * from './circuit-state.store';
+export * from './upstream-client';
+export * from './retry-policy';
+export * from './retry-budget';
+export * from './hedge-policy';
+export * from './bulkhead';
+export * from './upstream-client.factory';
 export * from './shared-services.module';
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { RetryBudget } from './retry-budget';
+
+describe('RetryBudget', () => {
+  const now = 1_700_000_000_000;
+
+  it('always allows the minimum retries', () => {
+    const budget = new RetryBudget({ percent: 10, window: 10, minRetries: 2 });
+
+    expect(budget.tryAcquire(now)).toBe(true);
+    expect(budget.tryAcquire(now)).toBe(true);
+    expect(budget.tryAcquire(now)).toBe(false);
+  });
+
+  it('allows retries as a percentage of the successes in the window', () => {
+    const budget = new RetryBudget({ percent: 20, window: 10, minRetries: 0 });
+    for (let i = 0; i < 10; i++) {
+      budget.recordSuccess(now);
+    }
+
+    expect(budget.tryAcquire(now)).toBe(true);
+    expect(budget.tryAcquire(now)).toBe(true);
+    expect(budget.tryAcquire(now)).toBe(false);
+    expect(budget.stats(now)).toEqual({ successes: 10, retries: 2 });
+  });
+
+  it('forgets the counts that left the window', () => {
+    const budget = new RetryBudget({ percent: 100, window: 10, minRetries: 1 });
+    budget.recordSuccess(now);
+    budget.tryAcquire(now);
+    budget.tryAcquire(now);
+
+    expect(budget.tryAcquire(now + 5000)).toBe(false);
+    expect(budget.stats(now + 10000)).toEqual({ successes: 0, retries: 0 });
+    expect(budget.tryAcquire(now + 10000)).toBe(true);
+  });
+
+  it('resets a bucket reused for a later second', () => {
+    const budget = new RetryBudget({ percent: 100, window: 2, minRetries: 0 });
+    budget.recordSuccess(now);
+    budget.recordSuccess(now + 2000);
+
+    expect(budget.stats(now + 2000)).toEqual({ successes: 1, retries: 0 });
+  });
+});
@@ -0,0 +1,70 @@
+export interface RetryBudgetOptions {
+  // Retries allowed as a percentage of the successful requests in the window
+  percent: number;
+  // Length of the sliding window (seconds)
+  window: number;
+  // Retries always allowed in the window, so a quiet upstream can still be retried
+  minRetries: number;
+}
+
+interface Bucket {
+  // Epoch second
+  second: number;
+  successes: number;
+  retries: number;
+}
+
+/**
+ * Caps the retries sent to an upstream relative to its recent successful requests,
+ * so retries stop by themselves when the upstream is broadly failing.
+ * Counts are kept in one bucket per second over a sliding window.
+ */
+export class RetryBudget {
+  private readonly buckets: Bucket[];
+
+  constructor(private readonly options: RetryBudgetOptions) {
+    this.buckets = Array.from({ length: options.window }, () => ({ second: 0, successes: 0, retries: 0 }));
+  }
+
+  recordSuccess(now: number = Date.now()): void {
+    this.bucket(now).successes++;
+  }
+
+  /**
+   * Takes a retry from the budget
+   * @returns false when the budget is spent and the call must not be retried
+   */
+  tryAcquire(now: number = Date.now()): boolean {
+    const { successes, retries } = this.stats(now);
+    const allowed = Math.max(this.options.minRetries, Math.floor(successes * this.options.percent / 100));
+
+    if (retries >= allowed) {
+      return false;
+    }
+
+    this.bucket(now).retries++;
+    return true;
+  }
+
+  stats(now: number = Date.now()): { successes: number; retries: number } {
+    const oldest = Math.floor(now / 1000) - this.options.window;
+
+    return this.buckets
+      .filter(bucket => bucket.second > oldest)
+      .reduce(
+        (total, bucket) => ({ successes: total.successes + bucket.successes, retries: total.retries + bucket.retries }),
+        { successes: 0, retries: 0 }
+      );
+  }
+
+  private bucket(now: number): Bucket {
+    const second = Math.floor(now / 1000);
+    const bucket = this.buckets[second % this.options.window];
+
+    if (bucket.second !== second) {
+      Object.assign(bucket, { second, successes: 0, retries: 0 });
+    }
+
+    return bucket;
+  }
+}
@@ -0,0 +1,73 @@
+import { DEFAULT_RETRY_POLICY, getRetryDelay, getRetryReason, isRetrySafe, isValidRetryPolicy } from './retry-policy';
+
+describe('retry policy', () => {
+  describe('isRetrySafe', () => {
+    it('allows idempotent methods', () => {
+      expect(isRetrySafe('get')).toBe(true);
+      expect(isRetrySafe('PUT')).toBe(true);
+      expect(isRetrySafe('DELETE')).toBe(true);
+    });
+
+    it('only allows other methods with an idempotency key', () => {
+      expect(isRetrySafe('POST')).toBe(false);
+      expect(isRetrySafe('PATCH', { 'content-type': 'application/json' })).toBe(false);
+      expect(isRetrySafe('POST', { 'Idempotency-Key': 'a1b2' })).toBe(true);
+    });
+  });
+
+  describe('getRetryReason', () => {
+    it('returns retryable status codes', () => {
+      expect(getRetryReason({ response: { status: 503 } }, DEFAULT_RETRY_POLICY)).toBe('503');
+      expect(getRetryReason({ response: { status: 500 } }, DEFAULT_RETRY_POLICY)).toBeUndefined();
+    });
+
+    it('returns retryable network error codes', () => {
+      expect(getRetryReason({ code: 'ECONNRESET' }, DEFAULT_RETRY_POLICY)).toBe('ECONNRESET');
+      expect(getRetryReason({ code: 'ERR_BAD_REQUEST' }, DEFAULT_RETRY_POLICY)).toBeUndefined();
+    });
+
+    it('prefers the response over the error code', () => {
+      expect(getRetryReason({ code: 'ECONNRESET', response: { status: 400 } }, DEFAULT_RETRY_POLICY)).toBeUndefined();
+    });
+
+    it('ignores errors without a response or code', () => {
+      expect(getRetryReason(new Error('boom'), DEFAULT_RETRY_POLICY)).toBeUndefined();
+      expect(getRetryReason(undefined, DEFAULT_RETRY_POLICY)).toBeUndefined();
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, jitter: 'none' as const };
+
+    it('backs off exponentially up to the max delay', () => {
+      expect(getRetryDelay(policy, 1)).toBe(100);
+      expect(getRetryDelay(policy, 2)).toBe(200);
+      expect(getRetryDelay(policy, 3)).toBe(400);
+      expect(getRetryDelay(policy, 10)).toBe(2000);
+    });
+
+    it('waits a random time below the backoff with full jitter', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect(getRetryDelay(DEFAULT_RETRY_POLICY, 2)).toBe(100);
+
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe('isValidRetryPolicy', () => {
+    it('accepts partial policies', () => {
+      expect(isValidRetryPolicy({})).toBe(true);
+      expect(isValidRetryPolicy({ maxAttempts: 5, jitter: 'none' })).toBe(true);
+      expect(isValidRetryPolicy(DEFAULT_RETRY_POLICY)).toBe(true);
+    });
+
+    it('rejects policies that cannot be applied', () => {
+      expect(isValidRetryPolicy({ maxAttempts: 0 })).toBe(false);
+      expect(isValidRetryPolicy({ maxAttempts: 1.5 })).toBe(false);
+      expect(isValidRetryPolicy({ initialDelay: -100 })).toBe(false);
+      expect(isValidRetryPolicy({ jitter: 'equal' as any })).toBe(false);
+      expect(isValidRetryPolicy({ retryableStatusCodes: 503 as any })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { Method } from 'axios';
+
+export type RetryJitter = 'full' | 'none';
+
+export interface RetryPolicy {
+  // Attempts including the first one, 1 disables retries
+  maxAttempts: number;
+  // Backoff before the first retry (ms), multiplied at every retry up to maxDelay
+  initialDelay: number;
+  multiplier: number;
+  maxDelay: number;
+  // full: wait a random time between 0 and the backoff, none: wait the backoff
+  jitter: RetryJitter;
+  // Upstream responses worth retrying
+  retryableStatusCodes: number[];
+  // Network errors worth retrying, e.g. ECONNRESET
+  retryableErrorCodes: string[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelay: 100,
+  multiplier: 2,
+  maxDelay: 2000,
+  jitter: 'full',
+  retryableStatusCodes: [502, 503, 504],
+  retryableErrorCodes: ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN'],
+};
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Whether a request can safely be sent again: idempotent methods, or any method
+ * carrying an Idempotency-Key the upstream deduplicates on
+ */
+export function isRetrySafe(method: Method, headers: Record<string, string> = {}): boolean {
+  return IDEMPOTENT_METHODS.includes(method.toUpperCase())
+    || Object.keys(headers).some(name => name.toLowerCase() === 'idempotency-key');
+}
+
+/**
+ * Why an upstream error is worth retrying (the status or error code), or undefined when it is not
+ * @param error - The error raised by the HTTP client, before it is mapped to a gateway exception
+ */
+export function getRetryReason(error: any, policy: RetryPolicy): string | undefined {
+  if (error?.response) {
+    return policy.retryableStatusCodes.includes(error.response.status) ? String(error.response.status) : undefined;
+  }
+
+  return error?.code && policy.retryableErrorCodes.includes(error.code) ? error.code : undefined;
+}
+
+/**
+ * Backoff before a retry
+ * @param retry - 1 for the first retry
+ */
+export function getRetryDelay(policy: RetryPolicy, retry: number): number {
+  const backoff = Math.min(policy.maxDelay, policy.initialDelay * Math.pow(policy.multiplier, retry - 1));
+  return policy.jitter === 'full' ? Math.floor(Math.random() * backoff) : backoff;
+}
+
+/**
+ * Fails fast on retry policies that can't be applied
+ */
+export function isValidRetryPolicy(policy: Partial<RetryPolicy>): boolean {
+  const positive = [policy.maxAttempts, policy.initialDelay, policy.multiplier, policy.maxDelay];
+
+  return positive.every(value => value === undefined || value > 0)
+    && (policy.maxAttempts === undefined || Number.isInteger(policy.maxAttempts))
+    && (policy.jitter === undefined || ['full', 'none'].includes(policy.jitter))
+    && (policy.retryableStatusCodes === undefined || Array.isArray(policy.retryableStatusCodes))
+    && (policy.retryableErrorCodes === undefined || Array.isArray(policy.retryableErrorCodes));
+}
@@ -1,12 +1,18 @@
 import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
 import { CacheService } from './cache.service';
 import { TelemetryService } from './telemetry.service';
 import { CircuitBreakerService } from './circuit-breaker.service';
+import { CircuitBreakerController } from './circuit-breaker.controller';
+import { UpstreamClientFactory } from './upstream-client.factory';
 import { RedisModule } from '../../../core/redis/redis.module';
+import { ConcurrencyModule } from '../../../core/concurrency/concurrency.module';
+import { LoadSheddingModule } from '../../../core/load-shedding/load-shedding.module';
 
 @Module({
-  imports: [RedisModule],
-  providers: [CacheService, TelemetryService, CircuitBreakerService],
-  exports: [CacheService, TelemetryService, CircuitBreakerService],
+  imports: [HttpModule, RedisModule, ConcurrencyModule, LoadSheddingModule],
+  controllers: [CircuitBreakerController],
+  providers: [CacheService, TelemetryService, CircuitBreakerService, UpstreamClientFactory],
+  exports: [CacheService, TelemetryService, CircuitBreakerService, UpstreamClientFactory],
 })
-export class SharedServicesModule {}
\ No newline at end of file
+export class SharedServicesModule {}
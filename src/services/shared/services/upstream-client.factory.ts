@@ -0,0 +1,149 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { ServiceUnavailableException } from '../../../core/exceptions';
+import { ConcurrencyService } from '../../../core/concurrency/concurrency.service';
+import { LoadMonitorService } from '../../../core/load-shedding/load-monitor.service';
+import { CircuitBreakerService } from './circuit-breaker.service';
+import { CircuitOptions } from './circuit-state.store';
+import { TelemetryService } from './telemetry.service';
+import { UpstreamClient, UpstreamConfig } from './upstream-client';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, isValidRetryPolicy } from './retry-policy';
+import { RetryBudgetOptions } from './retry-budget';
+import { BulkheadOptions } from './bulkhead';
+
+// Fallback URLs for the bundled upstreams when SERVICE_X_URL is not set
+const DEFAULT_UPSTREAM_URLS: Record<string, string> = {
+  'service-a': 'http://localhost:8001',
+  'service-b': 'http://localhost:8002',
+  'service-c': 'http://localhost:8003',
+};
+
+@Injectable()
+export class UpstreamClientFactory {
+  private readonly logger = new Logger(UpstreamClientFactory.name);
+  private clients: Map<string, UpstreamClient> = new Map();
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+    private readonly circuitBreakerService: CircuitBreakerService,
+    private readonly telemetryService: TelemetryService,
+    private readonly concurrencyService: ConcurrencyService,
+    private readonly loadMonitorService: LoadMonitorService,
+  ) {}
+
+  /**
+   * Get or create the client for a named upstream
+   * @param name - Upstream name, configured from SERVICE_X_URL / SERVICE_X_API_KEY / SERVICE_X_TIMEOUT_MS / SERVICE_X_MAX_CONCURRENCY / SERVICE_X_RETRY_* / SERVICE_X_RETRY_BUDGET_* / SERVICE_X_MAX_SOCKETS / SERVICE_X_MAX_QUEUE
+   * @param circuitBreaker - Circuit breaker options of the upstream, applied when its client is created
+   */
+  getClient(name: string, circuitBreaker?: Partial<CircuitOptions>): UpstreamClient {
+    if (!this.clients.has(name)) {
+      const config = { ...this.createConfig(name), circuitBreaker };
+      // Created up front so the circuit shows up in the admin endpoints before the first call
+      this.circuitBreakerService.getCircuit(name, circuitBreaker);
+      this.clients.set(name, new UpstreamClient(
+        config,
+        this.httpService,
+        this.circuitBreakerService,
+        this.telemetryService,
+        this.concurrencyService,
+        this.loadMonitorService,
+      ));
+    }
+
+    return this.clients.get(name);
+  }
+
+  /**
+   * Build the upstream configuration by naming convention, e.g. service-d -> SERVICE_D_URL
+   */
+  private createConfig(name: string): UpstreamConfig {
+    const envPrefix = name.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+    const label = name.split(/[-_]/).map(part => part.charAt(0).toUpperCase() + part.slice(1)).join(' ');
+    // A comma separated list declares further instances, used by hedged requests
+    const [baseUrl, ...replicaUrls] = (this.configService.get<string>(`${envPrefix}_URL`) || DEFAULT_UPSTREAM_URLS[name] || '')
+      .split(',')
+      .map(url => url.trim())
+      .filter(Boolean);
+
+    if (!baseUrl) {
+      this.logger.error(`No ${envPrefix}_URL configured for upstream ${name}`);
+      throw new ServiceUnavailableException(label);
+    }
+
+    return {
+      name,
+      label,
+      baseUrl,
+      replicaUrls,
+      apiKey: this.configService.get<string>(`${envPrefix}_API_KEY`) || '',
+      timeout: parseInt(this.configService.get<string>(`${envPrefix}_TIMEOUT_MS`) || '30000'),
+      retry: this.createRetryPolicy(envPrefix),
+      retryBudget: this.createRetryBudget(envPrefix),
+      bulkhead: this.createBulkhead(envPrefix),
+    };
+  }
+
+  /**
+   * Build the bulkhead from SERVICE_X_MAX_SOCKETS / SERVICE_X_MAX_QUEUE settings
+   */
+  private createBulkhead(envPrefix: string): BulkheadOptions {
+    const bulkhead: BulkheadOptions = {
+      maxSockets: Number(this.configService.get<string>(`${envPrefix}_MAX_SOCKETS`) ?? 50),
+      maxQueue: Number(this.configService.get<string>(`${envPrefix}_MAX_QUEUE`) ?? 100),
+    };
+
+    if (!(bulkhead.maxSockets >= 1) || !Number.isInteger(bulkhead.maxSockets)
+      || !(bulkhead.maxQueue >= 0) || !Number.isInteger(bulkhead.maxQueue)) {
+      throw new Error(`Invalid ${envPrefix}_MAX_SOCKETS / ${envPrefix}_MAX_QUEUE configuration`);
+    }
+
+    return bulkhead;
+  }
+
+  /**
+   * Build the retry budget from SERVICE_X_RETRY_BUDGET_* settings
+   */
+  private createRetryBudget(envPrefix: string): RetryBudgetOptions {
+    const get = (name: string, fallback: number) =>
+      Number(this.configService.get<string>(`${envPrefix}_RETRY_BUDGET_${name}`) ?? fallback);
+
+    const budget: RetryBudgetOptions = {
+      percent: get('PERCENT', 20),
+      window: get('WINDOW', 10),
+      minRetries: get('MIN_RETRIES', 10),
+    };
+
+    if (!(budget.percent >= 0) || !(budget.window >= 1) || !Number.isInteger(budget.window) || !(budget.minRetries >= 0)) {
+      throw new Error(`Invalid ${envPrefix}_RETRY_BUDGET_* configuration`);
+    }
+
+    return budget;
+  }
+
+  /**
+   * Build the retry policy from SERVICE_X_RETRY_* settings, e.g. SERVICE_A_RETRY_MAX_ATTEMPTS
+   */
+  private createRetryPolicy(envPrefix: string): RetryPolicy {
+    const get = (name: string) => this.configService.get<string>(`${envPrefix}_RETRY_${name}`);
+    const list = (value?: string) => value?.split(',').map(item => item.trim()).filter(Boolean);
+
+    const policy: RetryPolicy = {
+      ...DEFAULT_RETRY_POLICY,
+      ...(get('MAX_ATTEMPTS') ? { maxAttempts: Number(get('MAX_ATTEMPTS')) } : {}),
+      ...(get('INITIAL_DELAY_MS') ? { initialDelay: Number(get('INITIAL_DELAY_MS')) } : {}),
+      ...(get('MAX_DELAY_MS') ? { maxDelay: Number(get('MAX_DELAY_MS')) } : {}),
+      ...(get('JITTER') ? { jitter: get('JITTER') as RetryPolicy['jitter'] } : {}),
+      ...(get('STATUS_CODES') ? { retryableStatusCodes: list(get('STATUS_CODES')).map(Number) } : {}),
+      ...(get('ERROR_CODES') ? { retryableErrorCodes: list(get('ERROR_CODES')) } : {}),
+    };
+
+    if (!isValidRetryPolicy(policy)) {
+      throw new Error(`Invalid ${envPrefix}_RETRY_* configuration`);
+    }
+
+    return policy;
+  }
+}
@@ -0,0 +1,460 @@
+import { HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { AxiosResponse, Method, ResponseType } from 'axios';
+import { Agent as HttpAgent } from 'http';
+import { Agent as HttpsAgent } from 'https';
+import { Observable, Subscription, catchError, finalize, firstValueFrom } from 'rxjs';
+import {
+  ServiceUnavailableException,
+  GatewayTimeoutException,
+  ResourceNotFoundException
+} from '../../../core/exceptions';
+import { ConcurrencyService } from '../../../core/concurrency/concurrency.service';
+import { LoadMonitorService } from '../../../core/load-shedding/load-monitor.service';
+import { DEADLINE_HEADER, getDeadline } from '../../../core/deadline/deadline.context';
+import { RequestUtils, ResponseUtils } from '../utils';
+import { CircuitBreakerService } from './circuit-breaker.service';
+import { CircuitOptions } from './circuit-state.store';
+import { RetryPolicy, getRetryDelay, getRetryReason, isRetrySafe } from './retry-policy';
+import { RetryBudget, RetryBudgetOptions } from './retry-budget';
+import { DEFAULT_HEDGE_DELAY, DEFAULT_HEDGE_PERCENTILE, HedgePolicy, isHedgeSafe } from './hedge-policy';
+import { Bulkhead, BulkheadOptions } from './bulkhead';
+import { TelemetryService } from './telemetry.service';
+
+export interface UpstreamConfig {
+  // Upstream name, e.g. service-a; also used as the circuit breaker name
+  name: string;
+  // Human readable name used in error messages, e.g. Service A
+  label: string;
+  baseUrl: string;
+  // Other instances of the upstream, targeted by hedged requests
+  replicaUrls: string[];
+  apiKey: string;
+  timeout: number;
+  // Overrides the CIRCUIT_BREAKER_* defaults, e.g. which errors count as failures
+  circuitBreaker?: Partial<CircuitOptions>;
+  retry: RetryPolicy;
+  retryBudget: RetryBudgetOptions;
+  bulkhead: BulkheadOptions;
+}
+
+export interface UpstreamRequestOptions {
+  // Operation name used for telemetry and error reporting, e.g. GetItemById
+  operation: string;
+  tenantId?: string;
+  query?: Record<string, string | number | boolean>;
+  data?: any;
+  headers?: Record<string, string>;
+  requestId?: string;
+  responseType?: ResponseType;
+  // Timeout of each attempt (ms), overrides SERVICE_X_TIMEOUT_MS. The request deadline still applies.
+  timeout?: number;
+  // Resource reported by ResourceNotFoundException when the upstream answers 404
+  resourceType?: string;
+  resourceId?: string;
+  // Return the upstream payload as is instead of the standard response format
+  raw?: boolean;
+  // Overrides the upstream retry policy for this call, false disables retries
+  retry?: Partial<RetryPolicy> | false;
+  // Send a second request to another instance when the first is slow, true for the default policy.
+  // Ignored for unsafe methods.
+  hedge?: HedgePolicy | boolean;
+}
+
+export interface UpstreamResponse<T = any> {
+  status: number;
+  data: T;
+}
+
+/**
+ * HTTP client for a single named upstream. Bundles service headers, timeouts, concurrency limits,
+ * retries, circuit breaking, telemetry, error mapping and response standardisation.
+ */
+export class UpstreamClient {
+  private readonly logger: Logger;
+  // Shared by every call to the upstream, whatever their retry policy
+  private readonly retryBudget: RetryBudget;
+  private nextReplica = 0;
+  // Connection pools and call limits of this upstream only
+  private readonly bulkhead: Bulkhead;
+  private readonly httpAgent: HttpAgent;
+  private readonly httpsAgent: HttpsAgent;
+
+  constructor(
+    readonly config: UpstreamConfig,
+    private readonly httpService: HttpService,
+    private readonly circuitBreakerService: CircuitBreakerService,
+    private readonly telemetryService: TelemetryService,
+    private readonly concurrencyService: ConcurrencyService,
+    private readonly loadMonitorService: LoadMonitorService,
+  ) {
+    this.logger = new Logger(`UpstreamClient:${config.name}`);
+    this.retryBudget = new RetryBudget(config.retryBudget);
+    this.bulkhead = new Bulkhead(config.label, config.bulkhead, ({ active, queued }) => {
+      this.telemetryService.recordMetric('upstream_bulkhead_active', active, { upstream: config.name });
+      this.telemetryService.recordMetric('upstream_bulkhead_queue_depth', queued, { upstream: config.name });
+    });
+    // Sized like the bulkhead, so requests never queue inside the agents
+    this.httpAgent = new HttpAgent({ keepAlive: true, maxSockets: config.bulkhead.maxSockets });
+    this.httpsAgent = new HttpsAgent({ keepAlive: true, maxSockets: config.bulkhead.maxSockets });
+  }
+
+  async get<T = any>(path: string, options: UpstreamRequestOptions): Promise<T> {
+    const { data } = await this.send<T>('GET', path, options);
+    return data;
+  }
+
+  async post<T = any>(path: string, data: any, options: UpstreamRequestOptions): Promise<T> {
+    const response = await this.send<T>('POST', path, { ...options, data });
+    return response.data;
+  }
+
+  async put<T = any>(path: string, data: any, options: UpstreamRequestOptions): Promise<T> {
+    const response = await this.send<T>('PUT', path, { ...options, data });
+    return response.data;
+  }
+
+  async delete<T = any>(path: string, options: UpstreamRequestOptions): Promise<T> {
+    const { data } = await this.send<T>('DELETE', path, options);
+    return data;
+  }
+
+  /**
+   * Send a request to the upstream
+   * @param method - HTTP method
+   * @param path - Path relative to the upstream base URL
+   * @param options - Request options
+   * @returns The upstream status and response body
+   */
+  async send<T = any>(method: Method, path: string, options: UpstreamRequestOptions): Promise<UpstreamResponse<T>> {
+    const { operation, tenantId } = options;
+    const query = tenantId ? { ...options.query, tenantId } : options.query;
+    const headers = {
+      ...RequestUtils.createServiceHeaders(this.config.apiKey, tenantId, options.requestId),
+      ...options.headers,
+    };
+
+    if (!tenantId) {
+      delete headers['x-tenant-id'];
+    }
+
+    // Lets the upstream give up once the gateway no longer waits for its answer
+    const deadline = getDeadline();
+    if (deadline) {
+      headers[DEADLINE_HEADER] = String(deadline);
+    }
+
+    // Throws 429 when the upstream already has too many requests in flight
+    const lease = await this.concurrencyService.acquire('upstream', this.config.name);
+
+    // Only requests that can safely be sent twice are retried
+    const policy: RetryPolicy = { ...this.config.retry, ...(options.retry || {}) };
+    const maxAttempts = options.retry !== false && isRetrySafe(method, headers) ? policy.maxAttempts : 1;
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        const failure: { cause?: any } = {};
+
+        try {
+          const response = await this.attempt<T>(method, path, query, headers, deadline, options, failure);
+          this.retryBudget.recordSuccess();
+          return response;
+        } catch (error) {
+          // Errors raised before the request was sent, e.g. by an open circuit, have no cause and aren't retried
+          const reason = attempt < maxAttempts ? getRetryReason(failure.cause, policy) : undefined;
+          const delay = getRetryDelay(policy, attempt);
+          if (!reason || (deadline && Date.now() + delay >= deadline)) {
+            throw error;
+          }
+
+          if (!this.retryBudget.tryAcquire()) {
+            this.logger.warn(`${operation} attempt ${attempt} failed (${reason}), retry budget of ${this.config.name} is spent`);
+            this.telemetryService.recordMetric('upstream_retry_budget_exhausted', 1, {
+              upstream: this.config.name,
+              operation,
+            });
+            throw error;
+          }
+
+          this.logger.warn(`${operation} attempt ${attempt} failed (${reason}), retrying in ${delay}ms`);
+          this.telemetryService.recordMetric('upstream_retry', 1, {
+            upstream: this.config.name,
+            operation,
+            attempt: String(attempt),
+            reason,
+          });
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+      }
+    } catch (error) {
+      this.logger.error(`${operation} failed: ${error.message}`, error.stack);
+      this.telemetryService.recordError(this.config.name, operation, error.message);
+
+      if (error instanceof HttpException) {
+        throw error;
+      }
+
+      throw new HttpException(
+        { error: 'InternalServerError', message: `${this.config.label} request failed` },
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    } finally {
+      await lease?.release();
+    }
+  }
+
+  /**
+   * Send a single attempt through the bulkhead and the circuit breaker, so every failed attempt counts
+   * @param failure - Receives the raw HTTP client error, used to decide on a retry
+   */
+  private async attempt<T>(
+    method: Method,
+    path: string,
+    query: UpstreamRequestOptions['query'],
+    headers: Record<string, string>,
+    deadline: number | undefined,
+    options: UpstreamRequestOptions,
+    failure: { cause?: any },
+  ): Promise<UpstreamResponse<T>> {
+    const release = await this.acquireSocket(options, deadline);
+
+    try {
+      // The wait for a socket counts against the deadline
+      const timeout = this.getAttemptTimeout(options, deadline);
+      return await this.sendThroughCircuitBreaker<T>(method, path, query, headers, timeout, deadline, options, failure);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Waits for a socket of the upstream's pool, at most until the attempt would time out.
+   * Rejections happen before the circuit breaker: a full queue says nothing about the upstream's health.
+   */
+  private async acquireSocket(options: UpstreamRequestOptions, deadline?: number): Promise<() => void> {
+    // A passed deadline is no bulkhead rejection
+    const timeout = this.getAttemptTimeout(options, deadline);
+
+    try {
+      return await this.bulkhead.acquire(timeout);
+    } catch (error) {
+      this.telemetryService.recordMetric('upstream_bulkhead_rejected', 1, {
+        upstream: this.config.name,
+        operation: options.operation,
+      });
+      throw error;
+    }
+  }
+
+  private sendThroughCircuitBreaker<T>(
+    method: Method,
+    path: string,
+    query: UpstreamRequestOptions['query'],
+    headers: Record<string, string>,
+    timeout: number,
+    deadline: number | undefined,
+    options: UpstreamRequestOptions,
+    failure: { cause?: any },
+  ): Promise<UpstreamResponse<T>> {
+    // Use circuit breaker to prevent cascading failures
+    return this.circuitBreakerService.executeWithCircuitBreaker(
+      this.config.name,
+      async () => {
+        const stopTimer = this.telemetryService.startTimer('upstream_request', {
+          upstream: this.config.name,
+          operation: options.operation,
+        });
+        const startedAt = Date.now();
+        const request = (baseUrl: string, requestTimeout: number) => this.httpService.request({
+          ...RequestUtils.createRequestConfig(headers, requestTimeout),
+          method,
+          url: RequestUtils.buildUrl(baseUrl, path, query),
+          data: options.data,
+          responseType: options.responseType,
+          httpAgent: this.httpAgent,
+          httpsAgent: this.httpsAgent,
+        });
+        // The hedge is sent later, its timeout is cut to the time then left before the deadline
+        const hedgedRequest = (baseUrl: string) => request(baseUrl, this.getAttemptTimeout(options, deadline));
+        const hedge = options.hedge && isHedgeSafe(method) ? (options.hedge === true ? {} : options.hedge) : undefined;
+
+        try {
+          const { status, data } = await firstValueFrom(
+            (hedge
+              ? this.hedge(request(this.config.baseUrl, timeout), hedgedRequest, hedge, options.operation)
+              : request(this.config.baseUrl, timeout)
+            ).pipe(
+              catchError(error => {
+                failure.cause = error;
+                return this.handleError(options)(error);
+              }),
+            ),
+          );
+
+          return { status, data: options.raw ? data : ResponseUtils.standardizeResponse(data) as T };
+        } finally {
+          stopTimer();
+          // Feeds the upstream p95 used for load shedding
+          this.loadMonitorService.recordUpstreamLatency(this.config.name, Date.now() - startedAt);
+        }
+      },
+      this.config.circuitBreaker
+    );
+  }
+
+  /**
+   * Timeout of the next attempt: the call or upstream timeout, cut to the time left before the request deadline
+   * @throws GatewayTimeoutException when the deadline has passed
+   */
+  private getAttemptTimeout(options: UpstreamRequestOptions, deadline?: number): number {
+    const timeout = options.timeout ?? this.config.timeout;
+    if (!deadline) {
+      return timeout;
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new GatewayTimeoutException();
+    }
+
+    return Math.min(timeout, remaining);
+  }
+
+  /**
+   * Send the request, and send it again to another instance when no response arrived within the hedge delay.
+   * The first response wins and the other request is cancelled. Fails when every request sent failed,
+   * or right away when the first request fails before the hedge is sent.
+   * @param hedgedRequest - Builds the hedged request when the delay expires; throws when the deadline has passed
+   */
+  private hedge<R>(
+    primary: Observable<AxiosResponse<R>>,
+    hedgedRequest: (baseUrl: string) => Observable<AxiosResponse<R>>,
+    policy: HedgePolicy,
+    operation: string,
+  ): Observable<AxiosResponse<R>> {
+    const tags = { upstream: this.config.name, operation };
+
+    return new Observable<AxiosResponse<R>>(subscriber => {
+      const requests = new Subscription();
+      let inFlight = 0;
+      let hedgeTimer: NodeJS.Timeout | undefined;
+
+      const send = (request: Observable<AxiosResponse<R>>, hedged: boolean, release: () => void = () => {}) => {
+        inFlight++;
+        requests.add(request.pipe(finalize(release)).subscribe({
+          next: response => {
+            if (hedged) {
+              this.telemetryService.recordMetric('upstream_hedge_won', 1, tags);
+            }
+            subscriber.next(response);
+            subscriber.complete();
+          },
+          error: error => {
+            inFlight--;
+            if (hedgeTimer || inFlight === 0) {
+              subscriber.error(error);
+            }
+          },
+        }));
+      };
+
+      send(primary, false);
+      hedgeTimer = setTimeout(() => {
+        hedgeTimer = undefined;
+
+        let request: Observable<AxiosResponse<R>>;
+        try {
+          request = hedgedRequest(this.nextReplicaUrl());
+        } catch {
+          // No time left before the deadline, keep waiting for the primary request
+          return;
+        }
+
+        // Hedges never wait for a socket, the primary request already holds one
+        const release = this.bulkhead.tryAcquire();
+        if (!release) {
+          return;
+        }
+
+        this.telemetryService.recordMetric('upstream_hedge', 1, tags);
+        send(request, true, release);
+      }, this.getHedgeDelay(policy));
+
+      // Cancels the pending timer and the request that lost
+      return () => {
+        clearTimeout(hedgeTimer);
+        requests.unsubscribe();
+      };
+    });
+  }
+
+  /**
+   * A fixed delay, or the observed latency percentile of the upstream
+   */
+  private getHedgeDelay(policy: HedgePolicy): number {
+    if (policy.percentile === undefined && policy.delay !== undefined) {
+      return policy.delay;
+    }
+
+    return this.loadMonitorService.getUpstreamLatency(this.config.name, policy.percentile ?? DEFAULT_HEDGE_PERCENTILE)
+      ?? policy.delay
+      ?? DEFAULT_HEDGE_DELAY;
+  }
+
+  /**
+   * Rotates hedged requests over the other instances, or the same one when there is no other
+   */
+  private nextReplicaUrl(): string {
+    const { baseUrl, replicaUrls } = this.config;
+    if (replicaUrls.length === 0) {
+      return baseUrl;
+    }
+
+    const url = replicaUrls[this.nextReplica];
+    this.nextReplica = (this.nextReplica + 1) % replicaUrls.length;
+    return url;
+  }
+
+  /**
+   * Map HTTP errors from the upstream to gateway exceptions
+   */
+  private handleError = (options: UpstreamRequestOptions) => (error: any) => {
+    // Handle connection timeouts
+    if (
+      error.code === 'ECONNABORTED' ||
+      error.code === 'ETIMEDOUT' ||
+      (error.message && (error.message.includes('timeout') || error.message.includes('Timeout')))
+    ) {
+      throw new GatewayTimeoutException();
+    }
+
+    // Handle connection errors
+    if (
+      error.code === 'ECONNREFUSED' ||
+      error.code === 'ENOTFOUND' ||
+      (error.message && error.message.includes('connect'))
+    ) {
+      throw new ServiceUnavailableException(this.config.label);
+    }
+
+    // Handle HTTP error responses
+    if (error.response) {
+      // Handle 404 errors specifically
+      if (error.response.status === 404) {
+        const resourceId = options.resourceId || error.config?.url?.split('/').pop().split('?')[0];
+        throw new ResourceNotFoundException(options.resourceType || 'resource', resourceId);
+      }
+
+      throw new HttpException(
+        error.response.data || { error: 'Unknown error', message: `${this.config.label} request failed` },
+        error.response.status || HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+
+    // Handle other errors
+    throw new HttpException(
+      { error: 'InternalServerError', message: `${this.config.label} request failed` },
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  }
+}
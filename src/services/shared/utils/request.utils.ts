@@ -25,10 +25,11 @@ export class RequestUtils {
 
   /**
    * Create axios request config with timeout and headers
+   * @param timeout - Timeout in ms, from the upstream or route configuration
    */
   static createRequestConfig(
     headers: Record<string, string>,
-    timeout: number = 30000
+    timeout: number
   ): AxiosRequestConfig {
     return {
       headers,